@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // rule catalog JSON is read from disk at request time
+  outputFileTracingIncludes: {
+    "/api/**": ["./rules/**/*"],
+  },
 };
 
 export default nextConfig;
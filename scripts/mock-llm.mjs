@@ -0,0 +1,68 @@
+// Stand-in for a local model server, for trying the narrative backend:
+//   node scripts/mock-llm.mjs            (listens on :8089, or $PORT)
+//   OPS_COPILOT_LLM_URL=http://localhost:8089/v1 npm run dev   (OpenAI-style)
+//   OPS_COPILOT_LLM_URL=http://localhost:8089/api npm run dev  (Ollama-style)
+// It answers /v1/chat/completions and /api/chat with a narrative built from
+// the facts in the prompt. MOCK_LLM_MODE=error|garbage|slow exercises the fallback.
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT) || 8089;
+const mode = process.env.MOCK_LLM_MODE ?? "ok";
+
+function narrativeFor(prompt) {
+  const json = prompt.slice(prompt.indexOf("{"));
+  let facts = {};
+  try {
+    facts = JSON.parse(json);
+  } catch {
+    // keep defaults
+  }
+  const top = facts.hypotheses?.[0]?.title ?? "an unconfirmed cause";
+  const service = facts.service ?? "the service";
+  return {
+    summary: `[mock] ${service} shows a ${String(facts.severity ?? "unknown").toLowerCase()}-severity incident; the leading hypothesis is ${top}.`,
+    businessImpact: `[mock] ${facts.blastRadius?.length ? facts.blastRadius.join(", ") : "Affected users unknown"}.`,
+    executiveOneLiner: `[mock] ${service}: ${top}.`,
+  };
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (c) => (body += c));
+  req.on("end", () => {
+    const ollama = req.url === "/api/chat";
+    if (req.method !== "POST" || (!ollama && req.url !== "/v1/chat/completions")) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (mode === "error") {
+      res.writeHead(500).end("mock failure");
+      return;
+    }
+
+    let request;
+    try {
+      request = JSON.parse(body || "{}");
+    } catch {
+      request = null;
+    }
+    if (!request || typeof request !== "object") {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "request body must be a JSON object" }));
+      return;
+    }
+    const prompt = request.messages?.at(-1)?.content ?? "";
+    const content = mode === "garbage" ? "I cannot help with that." : JSON.stringify(narrativeFor(prompt));
+    const reply = ollama
+      ? { model: request.model, message: { role: "assistant", content }, done: true }
+      : { model: request.model, choices: [{ index: 0, message: { role: "assistant", content } }] };
+
+    setTimeout(
+      () => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(reply));
+      },
+      mode === "slow" ? 60_000 : 50
+    );
+  });
+}).listen(port, () => console.log(`mock LLM listening on http://localhost:${port}`));
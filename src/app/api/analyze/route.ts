@@ -1,4 +1,39 @@
 import { NextResponse } from "next/server";
+import { compareToBaseline, describeBaseline } from "@/lib/analysis/baseline";
+import { blastParts, describeBlastRadius } from "@/lib/analysis/blast";
+import type { Brief } from "@/lib/analysis/brief";
+import { correlateChanges, describeTrigger } from "@/lib/analysis/changes";
+import { classifyComponents, describeComponents } from "@/lib/analysis/components";
+import { rankHypotheses } from "@/lib/analysis/hypotheses";
+import { fingerprintOf } from "@/lib/analysis/fingerprint";
+import { formatStatus } from "@/lib/analysis/lifecycle";
+import { generateNarrative, llmConfig } from "@/lib/analysis/narrative";
+import { matchRunbooks } from "@/lib/analysis/runbooks";
+import { scoreIncident } from "@/lib/analysis/scoring";
+import { describeSlo, evaluateSlos } from "@/lib/analysis/slo";
+import { isChangeEvent } from "@/lib/ingest/changes";
+import { failureOnset } from "@/lib/ingest/series";
+import type {
+  AnomalyWindow,
+  BaselineSnapshot,
+  BlastRadius,
+  Breakdown,
+  ChangeEvent,
+  LatencySummary,
+  LogTemplate,
+  PatternEvidence,
+  SignalSeries,
+  SloSeries,
+  TraceSummary,
+} from "@/lib/ingest/types";
+import {
+  loadRuleCatalog,
+  loadRunbooks,
+  loadScoringPolicy,
+  policyForService,
+  teamError,
+} from "@/lib/rules/catalog";
+import { findSimilarIncidents, type SimilarIncident } from "@/lib/store/incidents";
 
 type Input = {
   scenario?: string;
@@ -6,8 +41,30 @@ type Input = {
   region?: string;
   signals?: Record<string, number | string>;
   logs?: string[];
+  patterns?: Array<{ pattern: string; count: number }>;
+  team?: string;
+  breakdown?: Breakdown;
+  traces?: Omit<TraceSummary, "traces">;
+  templates?: LogTemplate[];
+  baseline?: BaselineSnapshot;
+  anomalies?: AnomalyWindow[];
+  series?: SignalSeries;
+  patternEvidence?: PatternEvidence[];
+  changeEvents?: ChangeEvent[];
+  latency?: LatencySummary;
+  blastRadius?: BlastRadius;
+  sloSeries?: SloSeries[];
+  // saved incident being re-analyzed; left out of the similar-incident lookup
+  incidentId?: string;
+  // "template" skips a configured narrative backend for this brief
+  narrative?: "template" | "llm";
 };
 
+// share of template failures one template needs to be called dominant
+const DOMINANT_TEMPLATE_SHARE = 0.3;
+// p95 multiple over normal that counts as a latency regression
+const LATENCY_REGRESSION = 1.5;
+
 function getNum(signals: Record<string, any> | undefined, key: string) {
   const v = signals?.[key];
   const n = typeof v === "number" ? v : Number(v);
@@ -20,12 +77,27 @@ export async function POST(req: Request) {
     if (!body) {
       return NextResponse.json({ error: "No payload provided" }, { status: 400 });
     }
+    const badTeam = teamError(body.team);
+    if (badTeam) return NextResponse.json({ error: badTeam }, { status: 400 });
+    const changeEvents = Array.isArray(body.changeEvents) ? body.changeEvents : [];
+    const badChange = changeEvents.findIndex((e) => !isChangeEvent(e));
+    if (badChange >= 0) {
+      return NextResponse.json(
+        { error: `changeEvents[${badChange}] must be a change event with at, type and source` },
+        { status: 400 }
+      );
+    }
 
     const scenario = body.scenario ?? "Uploaded Incident";
     const service = body.service ?? "BTP Service (unknown)";
     const region = body.region ?? "unknown";
     const signals = body.signals ?? {};
     const logs = Array.isArray(body.logs) ? body.logs : [];
+    const patterns = Array.isArray(body.patterns) ? body.patterns : [];
+    const templates = Array.isArray(body.templates) ? body.templates : [];
+    const components = Array.isArray(body.breakdown?.byService)
+      ? classifyComponents(body.breakdown.byService)
+      : [];
 
     if (!logs.length) {
       return NextResponse.json({ error: "No logs provided" }, { status: 400 });
@@ -37,13 +109,118 @@ export async function POST(req: Request) {
     const http5xx = getNum(signals, "http_5xx");
     const errorRate = getNum(signals, "error_rate_pct");
 
-    let severity: "Low" | "Medium" | "High" = "Low";
-    if (http5xx >= 2 || timeouts >= 2 || errorRate >= 3) severity = "High";
-    else if (http5xx >= 1 || timeouts >= 1 || errors >= 1) severity = "Medium";
+    // the brief centres on the worst anomaly window rather than the whole file
+    const focusWindow = Array.isArray(body.anomalies) ? body.anomalies[0] : undefined;
+    const windowErrorRate = focusWindow?.signals.lines
+      ? Math.round((focusWindow.signals.errors / focusWindow.signals.lines) * 1000) / 10
+      : 0;
+    const focusPatterns = new Set(focusWindow?.dominantPatterns.map((p) => p.pattern));
+
+    // rules fire on ingest's pattern counts or directly on the sample lines
+    const ruleSet = loadRuleCatalog(body.team);
+    const observed = new Map(patterns.map((p) => [p.pattern, p.count]));
+    const matchedRules = ruleSet.rules
+      .filter(
+        (r) =>
+          (observed.get(r.pattern) ?? 0) > 0 ||
+          logs.some((line) => r.test({ line, fields: {} }))
+      )
+      .sort(
+        (a, b) =>
+          Number(focusPatterns.has(b.pattern)) - Number(focusPatterns.has(a.pattern)) ||
+          b.severityWeight - a.severityWeight
+      );
+
+    // against a baseline, how far from normal matters more than fixed thresholds
+    const baseline = body.baseline?.derivedSignals
+      ? compareToBaseline(signals, patterns, templates, body.baseline)
+      : undefined;
+
+    // SLOs without matching events in this upload are left out of the brief
+    const slos = evaluateSlos(
+      ruleSet.slo,
+      Array.isArray(body.sloSeries) ? body.sloSeries : []
+    ).filter((s) => s.status !== "no_data");
+    const pagingSlos = slos.filter((s) => s.pageWorthy);
+
+    const blastRadius = body.blastRadius?.tenants ? body.blastRadius : undefined;
+    const blast = blastRadius ? blastParts(blastRadius) : [];
+
+    // p95 against the baseline or, failing that, the upload's own normal buckets
+    const latency = body.latency?.count ? body.latency : undefined;
+    const latencyDeviation = baseline?.deviations.find((d) => d.signal === "latency_p95_ms");
+    const regression = latency?.regression;
+    const latencyShift =
+      latencyDeviation && (latencyDeviation.ratio ?? 0) >= (regression?.multiple ?? 0)
+        ? {
+            multiple: Math.round((latencyDeviation.ratio ?? 0) * 10) / 10,
+            normal: latencyDeviation.baseline,
+            p95: latencyDeviation.incident,
+            against: "baseline",
+            since: undefined,
+          }
+        : regression
+          ? {
+              multiple: regression.multiple,
+              normal: regression.normalP95,
+              p95: regression.p95,
+              against: "normal",
+              since: regression.start,
+            }
+          : undefined;
+
+    // facts the scoring policy conditions can reference, besides the raw signals
+    const facts: Record<string, number> = {
+      ...Object.fromEntries(Object.keys(signals).map((k) => [k, getNum(signals, k)])),
+      peak_error_rate_pct: Math.max(errorRate, windowErrorRate),
+      window_error_rate_pct: windowErrorRate,
+      window_magnitude: focusWindow?.magnitude ?? 0,
+      latency_regression_multiple: latencyShift?.multiple ?? 0,
+      slo_page: pagingSlos.length ? 1 : 0,
+      slo_ticket: slos.some((s) => s.status === "ticket") ? 1 : 0,
+      ...(blastRadius && {
+        affected_tenants: blastRadius.tenants.affected,
+        affected_routes: blastRadius.routes.affected,
+        affected_clients: blastRadius.clients.affected,
+      }),
+      ...(baseline && {
+        baseline_rate_multiple: baseline.maxRateMultiple,
+        baseline_within: baseline.withinBaseline ? 1 : 0,
+      }),
+    };
+
+    // per-service overrides follow the origin component when there is one
+    const scoredService =
+      components.find((c) => c.role === "origin")?.service ?? body.service;
+    const { policy, serviceOverride } = policyForService(
+      loadScoringPolicy(body.team),
+      scoredService
+    );
+    const scoring = scoreIncident({
+      policy,
+      policyVersion: policy.version,
+      thresholds: {
+        ...ruleSet.severityThresholds,
+        ...serviceOverride?.severityThresholds,
+      },
+      facts,
+      matchedRules,
+      sampleLines: logs.length,
+      service: serviceOverride?.service,
+    });
+    const { severity, confidence } = scoring;
 
-    let confidence: "Low" | "Medium" | "High" = "Medium";
-    if (logs.length >= 6 && (timeouts + http5xx + errors) >= 2) confidence = "High";
-    if (logs.length < 3) confidence = "Low";
+    const runbookLibrary = loadRunbooks(body.team);
+    const runbooks = matchRunbooks(runbookLibrary.runbooks, {
+      patterns: [
+        ...new Set([
+          ...matchedRules.map((r) => r.pattern),
+          ...patterns.filter((p) => p.count > 0).map((p) => p.pattern),
+        ]),
+      ],
+      services: [service, ...components.map((c) => c.service)],
+      severity,
+    });
 
     const signalHighlights = [
       `log lines: ${getNum(signals, "log_lines")}`,
@@ -53,73 +230,307 @@ export async function POST(req: Request) {
       `HTTP 5xx: ${http5xx}`,
       `error rate: ${errorRate}%`,
     ];
+    if (focusWindow) {
+      signalHighlights.push(
+        `worst window: ${focusWindow.start} → ${focusWindow.end} (${focusWindow.kind}, ${focusWindow.magnitude}x normal)`,
+        `error rate in window: ${windowErrorRate}%`
+      );
+    }
+    signalHighlights.push(...slos.map((s) => `SLO ${describeSlo(s)}`));
+    if (blast.length) signalHighlights.push(`affected: ${blast.join(", ")}`);
+    if (latency) {
+      signalHighlights.push(
+        `latency p95: ${latency.p95} ms (p50 ${latency.p50}, p99 ${latency.p99}, max ${latency.max})`
+      );
+    }
+    if (regression) {
+      signalHighlights.push(
+        `latency regression from ${regression.start}: p95 ${regression.p95} ms vs ${regression.normalP95} ms normal`
+      );
+    }
+    if (baseline) signalHighlights.push(...baseline.deviations.map((d) => d.note));
+    if (components.length > 1) {
+      signalHighlights.push(`services with failures: ${components.length}`);
+    }
 
-    const hasTokenSlow = logs.some((l) => l.toLowerCase().includes("token_validation"));
-    const hasUpstreamTimeout = logs.some((l) => l.toLowerCase().includes("upstream timeout"));
-    const hasCircuitBreaker = logs.some((l) => l.toLowerCase().includes("circuit breaker"));
-    const hasAutoscalerMax = logs.some((l) => l.toLowerCase().includes("no scale event"));
+    // where failed requests broke first, from correlation-id traces
+    const traces = body.traces;
+    const firstFailure = traces?.firstFailureByService?.[0];
+    const traceFinding =
+      traces && traces.failed > 0 && firstFailure
+        ? `${firstFailure.pct}% of failed requests first failed at ${firstFailure.service}`
+        : "";
+    if (traces?.total) {
+      signalHighlights.push(`traced requests: ${traces.total} (${traces.failed} failed)`);
+      if (traceFinding) signalHighlights.push(traceFinding);
+    }
 
-    const rootCauseParts: string[] = [];
-    if (hasTokenSlow) rootCauseParts.push("authentication token validation latency (XSUAA/IdP path)");
-    if (hasUpstreamTimeout) rootCauseParts.push("upstream dependency timeouts amplifying end-user auth latency");
-    if (hasCircuitBreaker) rootCauseParts.push("circuit breaker activation indicates repeated downstream failures");
-    if (hasAutoscalerMax) rootCauseParts.push("capacity ceiling reached (autoscaler max) during demand spike");
+    // a failing template no catalog rule explains points at a new failure mode
+    const templateFailures = templates.reduce((sum, t) => sum + t.failures, 0);
+    const topTemplate = [...templates].sort((a, b) => b.failures - a.failures)[0];
+    const dominantTemplate =
+      topTemplate &&
+      topTemplate.failures > 0 &&
+      !topTemplate.patterns.length &&
+      topTemplate.failures >= templateFailures * DOMINANT_TEMPLATE_SHARE
+        ? topTemplate
+        : undefined;
+    const templateFinding = dominantTemplate
+      ? `Dominant error template with no matching rule (${dominantTemplate.failures} failing lines${
+          dominantTemplate.firstSeen ? `, first seen ${dominantTemplate.firstSeen}` : ""
+        }): \`${dominantTemplate.template}\`.`
+      : "";
+    if (dominantTemplate) {
+      signalHighlights.push(`unmatched error template: ${dominantTemplate.failures} lines`);
+    }
+
+    // deployments and config changes just before failures began are prime suspects
+    // the first failures, which may come before the worst window does
+    const onset = failureOnset(body.series, ...components.map((c) => c.firstFailureAt));
+    const suspectedTriggers = correlateChanges(changeEvents, onset);
+    const triggerFinding = suspectedTriggers.length
+      ? `Suspected trigger: ${describeTrigger(suspectedTriggers[0])}.`
+      : "";
+    if (suspectedTriggers.length) {
+      signalHighlights.push(
+        ...suspectedTriggers.map((t) => `change before onset: ${describeTrigger(t)}`)
+      );
+    }
+
+    // recurring problems: stored incidents with a similar fingerprint
+    let similarIncidents: SimilarIncident[] = [];
+    try {
+      similarIncidents = findSimilarIncidents(
+        fingerprintOf({ patterns, templates, breakdown: body.breakdown, signals }),
+        body.incidentId
+      );
+    } catch {
+      // an unreadable history store must not block the brief
+    }
+    const recurrenceFinding = similarIncidents.length
+      ? `This resembles "${similarIncidents[0].title}" saved ${similarIncidents[0].createdAt.slice(0, 10)} (${Math.round(
+          similarIncidents[0].score * 100
+        )}% similar).`
+      : "";
+    signalHighlights.push(
+      ...similarIncidents.map(
+        (s) =>
+          `seen before: "${s.title}" (${Math.round(s.score * 100)}% similar, ${formatStatus(s.status)})`
+      )
+    );
+
+    const slowService = latency?.byService[0];
+    const slowRoute = latency?.byRoute[0];
+    const latencyFinding =
+      latencyShift && latency && latencyShift.multiple >= LATENCY_REGRESSION
+        ? `p95 latency rose to ${latencyShift.p95} ms, ${latencyShift.multiple}x ${latencyShift.against} (${latencyShift.normal} ms)${
+            slowService ? `; slowest service ${slowService.key} (p95 ${slowService.p95} ms)` : ""
+          }${slowRoute ? `, slowest route ${slowRoute.key} (p95 ${slowRoute.p95} ms)` : ""}.`
+        : "";
+
+    const hypotheses = rankHypotheses({
+      matchedRules,
+      patternWeights: policy.patternWeights,
+      patternEvidence: Array.isArray(body.patternEvidence) ? body.patternEvidence : [],
+      focusPatterns,
+      components,
+      dominantTemplate,
+      triggers: suspectedTriggers,
+      latency:
+        latencyFinding && latencyShift && latency
+          ? { multiple: latencyShift.multiple, since: latencyShift.since, summary: latency }
+          : undefined,
+    });
 
-    const rootCause =
+    const rootCauseParts = [
+      ...new Set(matchedRules.map((r) => r.rootCause).filter(Boolean)),
+    ];
+
+    const rootCause = [
       rootCauseParts.length > 0
         ? `Most likely driver: ${rootCauseParts.join("; ")}.`
-        : "Most likely driver: dependency latency and intermittent gateway errors under load.";
+        : templateFinding || latencyFinding
+          ? ""
+          : "Most likely driver: dependency latency and intermittent gateway errors under load.",
+      templateFinding,
+      latencyFinding,
+      describeComponents(components),
+      traceFinding ? `${traceFinding}.` : "",
+      triggerFinding,
+    ]
+      .filter(Boolean)
+      .join(" ");
 
     const actions: string[] = [
-      "Confirm blast radius (tenant(s), routes, and time window) and set incident bridge + owner.",
-      "Correlate spikes with recent deployments/config changes and dependency health in the same region.",
-      "Add/validate SLOs: auth latency (p95), 5xx rate, and upstream timeout rate; alert on burn-rate thresholds.",
-      "Raise or re-tune autoscaler limits and validate backpressure/timeouts to prevent cascading failure.",
-      "Implement a short-term mitigation (fallback, cache, or retry policy) and a runbook for repeatability.",
+      ...new Set([
+        blast.length
+          ? `Blast radius so far: ${blast.join(", ")}; notify the affected tenants' owners and set incident bridge + owner.`
+          : "Confirm blast radius (tenant(s), routes, and time window) and set incident bridge + owner.",
+        ...matchedRules.flatMap((r) => r.actions),
+        ...runbooks.map(
+          (rb) =>
+            `Follow runbook "${rb.title}"${rb.owner ? ` (owner: ${rb.owner})` : ""}, starting with: ${rb.steps[0].text}`
+        ),
+        ...(dominantTemplate
+          ? [
+              "Triage the dominant unmatched error template and add a catalog rule for it if it recurs.",
+            ]
+          : []),
+        ...(latencyFinding && slowRoute
+          ? [
+              `Profile ${slowRoute.key}${slowService ? ` on ${slowService.key}` : ""} (p95 ${slowRoute.p95} ms) and its downstream calls to find where the extra latency is spent.`,
+            ]
+          : []),
+        suspectedTriggers.length
+          ? `Review ${describeTrigger(suspectedTriggers[0])} and roll it back if failures persist.`
+          : "Correlate spikes with recent deployments/config changes and dependency health in the same region.",
+        ...(similarIncidents.length
+          ? [
+              `Check how "${similarIncidents[0].title}" was handled (${similarIncidents[0].resolutionNotes.length} resolution note(s)) before repeating the investigation.`,
+            ]
+          : []),
+        ...(pagingSlos.length
+          ? pagingSlos.map((s) => {
+              const worst = [...s.burnRates].sort((a, b) => b.peakBurn - a.peakBurn)[0];
+              return `Page the on-call for SLO ${s.id}: error budget burning at ${worst.peakBurn}x (alert ${worst.alert}), ${s.budgetRemainingPct}% of the budget left.`;
+            })
+          : [
+              slos.length
+                ? `Keep the burn-rate alerts for SLO ${slos.map((s) => s.id).join(", ")} routed to the on-call channel.`
+                : "Add/validate SLOs: auth latency (p95), 5xx rate, and upstream timeout rate; alert on burn-rate thresholds.",
+            ]),
+        runbooks.length
+          ? "Implement a short-term mitigation (fallback, cache, or retry policy)."
+          : "Implement a short-term mitigation (fallback, cache, or retry policy) and a runbook for repeatability.",
+      ]),
     ];
 
     const btpNextSteps: string[] = [
       "Enable/confirm central log and metric collection for the involved subaccount/space and export to a single dashboard.",
       "Create an SLO panel for Auth (XSUAA) latency and HTTP 5xx with alerting to the on-call channel.",
       "Add release correlation tags (app version, deployment id) to logs to speed MTTR.",
-      "Define an incident runbook: triage checklist, escalation paths, rollback criteria, and comms template.",
+      runbooks.length
+        ? `Update runbook "${runbooks[0].title}" with what worked in this incident.`
+        : "Define an incident runbook: triage checklist, escalation paths, rollback criteria, and comms template.",
       "Introduce cost guardrails (autoscaling + quota checks) to avoid overcorrecting with spend.",
     ];
 
-    const summary =
+    const templateSummary =
       severity === "High"
         ? "Signals show a material deviation from normal performance, including elevated timeouts and 5xx responses, likely impacting user authentication and downstream API reliability."
         : severity === "Medium"
           ? "Signals indicate intermittent degradation (timeouts/5xx) that could escalate under load and affect user-facing flows."
           : "Signals suggest minor anomalies; monitor closely and validate baseline thresholds.";
+    const focusSummary = focusWindow
+      ? `Worst window ${focusWindow.start} → ${focusWindow.end}: failures ${
+          focusWindow.kind === "shift" ? "shifted up" : "spiked"
+        } to ${focusWindow.magnitude}x the normal level${
+          focusWindow.dominantPatterns.length
+            ? `, dominated by ${focusWindow.dominantPatterns.map((p) => p.pattern).join(", ")}`
+            : ""
+        }.`
+      : "";
+    const templateSummaryText = [
+      templateSummary,
+      focusSummary,
+      blastRadius ? describeBlastRadius(blastRadius) : "",
+      pagingSlos.length
+        ? `Error-budget burn is page-worthy for ${pagingSlos.map((s) => s.id).join(", ")}.`
+        : "",
+      baseline ? describeBaseline(baseline) : "",
+      triggerFinding,
+      recurrenceFinding,
+    ]
+      .filter(Boolean)
+      .join(" ");
 
-    const businessImpact =
+    const templateImpact =
       severity === "High"
         ? "High risk of SLA breach and customer-facing disruption (login failures / failed API calls), with potential revenue and reputational impact if not mitigated quickly."
         : severity === "Medium"
           ? "Moderate risk of incident escalation and partial customer impact; proactive remediation will reduce MTTR and avoid repeated occurrences."
           : "Low immediate customer impact; use the event to harden detection and operational guardrails.";
 
-    const executiveOneLiner =
+    const templateOneLiner =
       severity === "High"
         ? "We are seeing elevated auth latency and 5xx errors consistent with dependency timeouts under load; containment and scaling guardrails are required immediately."
         : severity === "Medium"
           ? "Early indicators of reliability drift (timeouts/5xx); correlating with releases and tuning scaling/alerts will prevent escalation."
           : "Minor anomalies detected; we will validate baselines and strengthen alerting to prevent future drift.";
 
-    return NextResponse.json({
-      output: {
+    // an optional local model rewrites the prose from the same facts
+    const { narrative, generator } = await generateNarrative(
+      {
+        scenario,
+        service,
+        region,
         severity,
         confidence,
-        summary,
-        rootCause,
-        actions,
-        businessImpact,
-        btpNextSteps,
+        score: scoring.score,
         signalHighlights,
-        executiveOneLiner,
+        rootCause,
+        hypotheses: hypotheses.slice(0, 3).map((h) => ({
+          title: h.title,
+          score: h.score,
+          count: h.count,
+          firstSeen: h.firstSeen,
+          evidence: h.evidence.slice(0, 3).map((e) => e.line),
+        })),
+        focusWindow: focusWindow && {
+          start: focusWindow.start,
+          end: focusWindow.end,
+          magnitude: focusWindow.magnitude,
+        },
+        suspectedTriggers: suspectedTriggers.map(describeTrigger),
+        blastRadius: blast,
+        pageWorthySlos: pagingSlos.map((s) => s.id),
+        similarPastIncidents: similarIncidents.map((s) => ({
+          title: s.title,
+          similarity: s.score,
+          status: s.status,
+        })),
+        recommendedActions: actions.slice(0, 5),
       },
-    });
+      {
+        summary: templateSummaryText,
+        businessImpact: templateImpact,
+        executiveOneLiner: templateOneLiner,
+      },
+      body.narrative === "template" ? null : llmConfig()
+    );
+    const { summary, businessImpact, executiveOneLiner } = narrative;
+
+    const output: Brief = {
+      severity,
+      confidence,
+      summary,
+      rootCause,
+      actions,
+      businessImpact,
+      btpNextSteps,
+      signalHighlights,
+      executiveOneLiner,
+      ruleVersion: ruleSet.version,
+      matchedRules: matchedRules.map((r) => r.id),
+      components,
+      dominantTemplate,
+      hypotheses,
+      baseline,
+      focusWindow,
+      onset,
+      suspectedTriggers,
+      similarIncidents,
+      blastRadius,
+      runbooks,
+      runbookVersion: runbookLibrary.version,
+      slos,
+      sloVersion: ruleSet.slo.version,
+      generator,
+      score: scoring.score,
+      policyVersion: scoring.policyVersion,
+      scoreTrace: scoring.trace,
+    };
+    return NextResponse.json({ output });
   } catch (e: any) {
     return NextResponse.json(
       { error: e?.message ?? "Analyze failed" },
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { buildPostmortem } from "@/lib/analysis/postmortem";
+import { loadPostmortemTemplate, teamError } from "@/lib/rules/catalog";
+import { getIncident } from "@/lib/store/incidents";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * Drafts a postmortem for a saved incident from rules/postmortem.json (plus
+ * `?team=` overrides). Edited drafts are saved with PATCH /api/incidents/<id>.
+ */
+export async function GET(req: Request, { params }: Context) {
+  const { id } = await params;
+  try {
+    const incident = getIncident(id);
+    if (!incident) {
+      return NextResponse.json({ error: `No incident ${id}` }, { status: 404 });
+    }
+
+    const team = new URL(req.url).searchParams.get("team") ?? undefined;
+    const badTeam = teamError(team);
+    if (badTeam) return NextResponse.json({ error: badTeam }, { status: 400 });
+    const template = loadPostmortemTemplate(team);
+    return NextResponse.json({ postmortem: buildPostmortem(template, incident) });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Generating postmortem failed" },
+      { status: 500 }
+    );
+  }
+}
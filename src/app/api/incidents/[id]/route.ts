@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import {
+  deleteIncident,
+  getIncident,
+  updateIncident,
+  type IncidentPatch,
+  type IncidentRecord,
+} from "@/lib/store/incidents";
+
+type Context = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `No incident ${id}` }, { status: 404 });
+}
+
+function withRevision(incident: IncidentRecord) {
+  return NextResponse.json({ incident }, { headers: { ETag: `"${incident.revision}"` } });
+}
+
+// If-Match: "<revision>"; anything else is ignored
+function ifRevision(req: Request) {
+  const m = req.headers.get("if-match")?.match(/^(?:W\/)?"?(\d+)"?$/);
+  return m ? Number(m[1]) : undefined;
+}
+
+export async function GET(_req: Request, { params }: Context) {
+  const { id } = await params;
+  try {
+    const incident = getIncident(id);
+    return incident ? withRevision(incident) : notFound(id);
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Reading incident failed" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Updates title, brief, uploaded change events, runbook activity, lifecycle or
+ * postmortem; `updatedBy` is required. With If-Match, a stale revision is a 409.
+ */
+export async function PATCH(req: Request, { params }: Context) {
+  const { id } = await params;
+  try {
+    const body = (await req.json().catch(() => null)) as IncidentPatch | null;
+    if (!body) {
+      return NextResponse.json({ error: "No payload provided" }, { status: 400 });
+    }
+
+    const incident = await updateIncident(id, body, ifRevision(req));
+    if (!incident) return notFound(id);
+    if ("error" in incident) {
+      return NextResponse.json(
+        { error: incident.error },
+        { status: "conflict" in incident && incident.conflict ? 409 : 400 }
+      );
+    }
+    return withRevision(incident);
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Updating incident failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Context) {
+  const { id } = await params;
+  try {
+    const deleted = await deleteIncident(id);
+    if (!deleted) return notFound(id);
+    if (deleted !== true) return NextResponse.json({ error: deleted.error }, { status: 409 });
+    return NextResponse.json({ deleted: id });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Deleting incident failed" },
+      { status: 500 }
+    );
+  }
+}
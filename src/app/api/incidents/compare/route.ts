@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { compareIncidents, recordSide } from "@/lib/analysis/compare";
+import { getIncident } from "@/lib/store/incidents";
+
+function revisionParam(value: string | null) {
+  return value === null || value === "" ? undefined : Number(value);
+}
+
+/**
+ * Compares two saved incidents, or two brief revisions of one:
+ * `?a=<id>&b=<id>` with optional `aRev` / `bRev` (1 = oldest brief, default the current one).
+ */
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const a = url.searchParams.get("a") ?? "";
+    const b = url.searchParams.get("b") ?? a;
+    if (!a) {
+      return NextResponse.json({ error: "Query parameter a is required" }, { status: 400 });
+    }
+
+    const sides = [];
+    for (const [id, rev] of [
+      [a, url.searchParams.get("aRev")],
+      [b, url.searchParams.get("bRev")],
+    ] as const) {
+      const record = getIncident(id);
+      if (!record) return NextResponse.json({ error: `No incident ${id}` }, { status: 404 });
+      const side = recordSide(record, revisionParam(rev));
+      if ("error" in side) return NextResponse.json({ error: side.error }, { status: 400 });
+      sides.push(side);
+    }
+
+    return NextResponse.json({ comparison: compareIncidents(sides[0], sides[1]) });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Comparing incidents failed" },
+      { status: 500 }
+    );
+  }
+}
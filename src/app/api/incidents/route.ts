@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createIncident, listIncidents, type IncidentInput } from "@/lib/store/incidents";
+
+/**
+ * Saved incidents, newest first, without their ingest and brief payloads;
+ * `unreadable` lists the ids of files that could not be read.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(listIncidents());
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Listing incidents failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => null)) as IncidentInput | null;
+    if (!body) {
+      return NextResponse.json({ error: "No payload provided" }, { status: 400 });
+    }
+
+    const incident = createIncident(body);
+    if ("error" in incident) {
+      return NextResponse.json({ error: incident.error }, { status: 400 });
+    }
+    return NextResponse.json({ incident }, { status: 201 });
+  } catch (e: unknown) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Saving incident failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { windowError } from "@/lib/ingest/baseline";
+import { ingestStream } from "@/lib/ingest/stream";
+import { isValidTimeZone } from "@/lib/ingest/time";
+import { loadRuleCatalog, teamError } from "@/lib/rules/catalog";
+
+function parseCsvParam(value: string | null) {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Streaming ingest: the request body is the raw log file and the response is
+ * NDJSON — `progress` events while lines are processed, then one `result`
+ * (same `incident` shape as /api/ingest) or `error`.
+ */
+export async function POST(req: Request) {
+  const body = req.body;
+  if (!body) {
+    return Response.json({ error: "No body provided" }, { status: 400 });
+  }
+
+  const url = new URL(req.url);
+  const format = url.searchParams.get("format") ?? undefined;
+  const csv = parseCsvParam(url.searchParams.get("csv"));
+  const team = url.searchParams.get("team") ?? undefined;
+  const timeZone = url.searchParams.get("tz") ?? undefined;
+  const baselineStart = url.searchParams.get("baselineStart") ?? undefined;
+  const baselineEnd = url.searchParams.get("baselineEnd") ?? undefined;
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    return Response.json({ error: `Unknown time zone: ${timeZone}` }, { status: 400 });
+  }
+  const badTeam = teamError(team);
+  if (badTeam) return Response.json({ error: badTeam }, { status: 400 });
+  const baselineWindow =
+    baselineStart || baselineEnd ? { start: baselineStart, end: baselineEnd } : undefined;
+  const badWindow = baselineWindow && windowError(baselineWindow, timeZone);
+  if (badWindow) return Response.json({ error: badWindow }, { status: 400 });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: object) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+      try {
+        const incident = await ingestStream(body, {
+          ruleSet: loadRuleCatalog(team),
+          format,
+          csv,
+          timeZone,
+          baselineWindow,
+          onProgress: (p) => send({ type: "progress", ...p }),
+        });
+
+        if (!Number(incident.derivedSignals.log_lines)) {
+          send({ type: "error", error: "No log lines found" });
+        } else {
+          send({ type: "result", incident });
+        }
+      } catch (e: unknown) {
+        send({
+          type: "error",
+          error: e instanceof Error ? e.message : "Ingest failed",
+        });
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,6 +1,78 @@
 "use client";
 
 import { useMemo, useRef, useState } from "react";
+import type { Brief } from "@/lib/analysis/brief";
+import {
+  compareIncidents,
+  recordSide,
+  type CompareSide,
+  type IncidentComparison,
+  type TextDiffLine,
+} from "@/lib/analysis/compare";
+import { blastParts } from "@/lib/analysis/blast";
+import { describeTrigger, type SuspectedTrigger } from "@/lib/analysis/changes";
+import type { ComponentRole } from "@/lib/analysis/components";
+import { evidenceLocation, type Hypothesis } from "@/lib/analysis/hypotheses";
+import {
+  INCIDENT_STATUSES,
+  formatMinutes,
+  formatStatus,
+  lifecycleDurations,
+  lifecycleTimeline,
+  type IncidentStatus,
+  type Lifecycle,
+} from "@/lib/analysis/lifecycle";
+import { describeGenerator } from "@/lib/analysis/narrative";
+import type { PostmortemDoc } from "@/lib/analysis/postmortem";
+import {
+  stepState,
+  type RunbookActivity,
+  type RunbookMatch,
+} from "@/lib/analysis/runbooks";
+import type { TraceEntry } from "@/lib/analysis/scoring";
+import { describeSlo, type SloStatus } from "@/lib/analysis/slo";
+import { isArchive, readUpload, type UploadedFile } from "@/lib/ingest/archive";
+import { toBaseline } from "@/lib/ingest/baseline";
+import { parseChangeEvents, sortEvents } from "@/lib/ingest/changes";
+import {
+  CSV_ROLES,
+  columnNames,
+  detectDelimiter,
+  detectHeader,
+  guessColumnMapping,
+  headerSignature,
+  looksLikeCsv,
+  parseCsv,
+  type CsvColumnMapping,
+  type CsvOptions,
+} from "@/lib/ingest/csv";
+import { failureOnset } from "@/lib/ingest/series";
+import type {
+  AnomalyWindow,
+  BaselineSnapshot,
+  BlastRadius,
+  Breakdown,
+  BreakdownRow,
+  ChangeEvent,
+  EvidenceLine,
+  LatencyRow,
+  LatencySummary,
+  LogTemplate,
+  PatternEvidence,
+  SignalSeries,
+  SloSeries,
+  SourceBreakdown,
+  Trace,
+  TraceSummary,
+} from "@/lib/ingest/types";
+import type {
+  IncidentList,
+  IncidentPatch,
+  IncidentRecord,
+  IncidentSummary,
+  SimilarIncident,
+  SourceFile,
+} from "@/lib/store/incidents";
 
 /* ----------------------------- Types ----------------------------- */
 type Telemetry = {
@@ -8,34 +80,77 @@ type Telemetry = {
   region: string;
   signals: Record<string, number | string>;
   logs: string[];
+  patterns: Array<{ pattern: string; count: number }>;
+  breakdown?: Breakdown;
+  traces?: Omit<TraceSummary, "traces">;
+  templates?: LogTemplate[];
+  baseline?: BaselineSnapshot;
+  anomalies?: AnomalyWindow[];
+  patternEvidence?: PatternEvidence[];
+  // detected in the logs plus any uploaded change-event file
+  changeEvents?: ChangeEvent[];
+  latency?: LatencySummary;
+  blastRadius?: BlastRadius;
+  sloSeries?: SloSeries[];
 };
 
 type AnalyzeResponse = {
-  output: {
-    severity: "Low" | "Medium" | "High";
-    confidence: "Low" | "Medium" | "High";
-    summary: string;
-    rootCause: string;
-    actions: string[];
-    businessImpact: string;
-    btpNextSteps: string[];
-    signalHighlights: string[];
-    executiveOneLiner: string;
-  };
+  output: Brief;
 };
 
 type IngestResponse = {
   incident: {
+    sourceFormat: "text" | "json" | "csv" | "cf" | "mixed";
+    ruleVersion: string;
     serviceGuess: string;
     regionGuess: string;
     timeWindow: { start?: string; end?: string };
     topPatterns: Array<{ pattern: string; count: number }>;
     sampleLines: string[];
     derivedSignals: Record<string, number | string>;
+    series: SignalSeries;
+    breakdown: Breakdown;
+    traces: TraceSummary;
+    templates: LogTemplate[];
+    anomalies: AnomalyWindow[];
+    patternEvidence: PatternEvidence[];
+    changeEvents: ChangeEvent[];
+    latency?: LatencySummary;
+    blastRadius: BlastRadius;
+    sloSeries: SloSeries[];
+    baseline?: BaselineSnapshot;
+    sources?: SourceBreakdown[];
   };
 };
 
+type SavedStamp = Pick<
+  IncidentRecord,
+  "id" | "revision" | "createdAt" | "createdBy" | "updatedAt" | "updatedBy"
+>;
+
+type LifecyclePatch = Pick<
+  IncidentPatch,
+  "status" | "statusAt" | "statusNote" | "transitionAt" | "owner" | "commander" | "note"
+>;
+
+type StreamEvent =
+  | { type: "progress"; lines: number; bytes: number }
+  | { type: "result"; incident: IngestResponse["incident"] }
+  | { type: "error"; error: string };
+
+type StreamProgress = {
+  lines: number;
+  bytes: number;
+  total: number;
+  etaSec: number | null;
+};
+
 /* --------------------------- Helpers ----------------------------- */
+function savedStamp(r: IncidentRecord): SavedStamp {
+  const { id, revision, createdAt, createdBy, updatedAt, updatedBy } = r;
+  return { id, revision, createdAt, createdBy, updatedAt, updatedBy };
+}
+
 function cn(...classes: Array<string | false | undefined | null>) {
   return classes.filter(Boolean).join(" ");
 }
@@ -44,12 +159,57 @@ function formatKey(key: string) {
   return key.replaceAll("_", " ").replace("pct", "%");
 }
 
+function formatTraceEntry(e: TraceEntry) {
+  const value = e.value !== undefined ? ` (${e.value})` : "";
+  const points = e.points ? ` → ${e.points > 0 ? "+" : ""}${e.points}` : "";
+  return `${e.label}${value}${points}`;
+}
+
+function runbookMarkdown(runbooks: RunbookMatch[], activity: RunbookActivity[]) {
+  const state = stepState(activity);
+  return runbooks
+    .map((rb) => {
+      const steps = rb.steps.map((s, i) => {
+        const a = state.get(`${rb.id}/${s.id}`);
+        const done = a?.done ? `x` : " ";
+        const who = a?.done ? ` — done by ${a.by} at ${a.at}` : "";
+        return `${i + 1}. [${done}] ${s.text}${s.owner ? ` _(owner: ${s.owner})_` : ""}${who}`;
+      });
+      const escalation = (rb.escalation ?? []).map(
+        (e) => `- Escalate: ${e.name}${e.role ? ` (${e.role})` : ""} — ${e.contact}`
+      );
+      const links = (rb.links ?? []).map((l) => `- [${l.label}](${l.url})`);
+      return [
+        `### ${rb.title}`,
+        `_Matched on ${rb.matchedOn.join(", ")}${rb.owner ? `; owner: ${rb.owner}` : ""}_`,
+        "",
+        ...steps,
+        ...(escalation.length || links.length ? ["", ...escalation, ...links] : []),
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+function lifecycleMarkdown(lifecycle: Lifecycle, onset?: string) {
+  const d = lifecycleDurations(lifecycle, onset);
+  return [
+    `- Time to detect: ${formatMinutes(d.timeToDetectMinutes)}`,
+    `- Time to mitigate: ${formatMinutes(d.timeToMitigateMinutes)}`,
+    `- Time to resolve: ${formatMinutes(d.timeToResolveMinutes)}`,
+    "",
+    ...lifecycleTimeline(lifecycle).map((e) => `- ${e.at} — ${e.by}: ${e.text}`),
+  ].join("\n");
+}
+
 function toMarkdownBrief(params: {
   scenario: string;
   telemetry: Telemetry;
   analysis: AnalyzeResponse["output"];
+  runbookActivity?: RunbookActivity[];
+  lifecycle?: Lifecycle | null;
+  onset?: string;
 }) {
-  const { scenario, telemetry, analysis } = params;
+  const { scenario, telemetry, analysis, lifecycle } = params;
 
   const highlights =
     analysis.signalHighlights?.length > 0
@@ -66,21 +226,102 @@ function toMarkdownBrief(params: {
     `**Region:** ${telemetry.region}`,
     `**Severity:** ${analysis.severity}`,
     `**Confidence:** ${analysis.confidence}`,
+    ...(lifecycle
+      ? [
+          `**Status:** ${formatStatus(lifecycle.status)}`,
+          `**Owner:** ${lifecycle.owner ?? "unassigned"} | **Incident commander:** ${
+            lifecycle.commander ?? "unassigned"
+          }`,
+        ]
+      : []),
     "",
     "## Executive One-liner",
     analysis.executiveOneLiner,
+    ...(lifecycle
+      ? ["", "## Status Timeline", lifecycleMarkdown(lifecycle, params.onset)]
+      : []),
     "",
     "## Signal Highlights",
     highlights.map((h) => `- ${h}`).join("\n"),
+    ...(analysis.blastRadius && blastParts(analysis.blastRadius).length
+      ? [
+          "",
+          "## Blast Radius",
+          blastParts(analysis.blastRadius)
+            .map((p) => `- ${p} saw failures`)
+            .join("\n"),
+        ]
+      : []),
+    "",
+    "## Why this severity",
+    (analysis.scoreTrace ?? []).map((e) => `- ${formatTraceEntry(e)}`).join("\n"),
+    "",
+    ...((analysis.slos ?? []).length
+      ? [
+          "",
+          "## SLO Status",
+          analysis.slos.map((s) => `- ${describeSlo(s)}`).join("\n"),
+        ]
+      : []),
     "",
     "## Summary",
     analysis.summary,
     "",
     "## Likely Root Cause",
     analysis.rootCause,
+    ...((analysis.hypotheses ?? []).length
+      ? [
+          "",
+          "### Ranked Hypotheses",
+          analysis.hypotheses
+            .map(
+              (h, i) =>
+                `${i + 1}. **${h.title}** — score ${h.score}, ${h.count} hit(s)${
+                  h.firstSeen ? `, first seen ${h.firstSeen}` : ""
+                }${
+                  h.evidence.length
+                    ? `\n   - evidence: ${h.evidence
+                        .map((e) => evidenceLocation(e) || "excerpt")
+                        .join(", ")}`
+                    : ""
+                }`
+            )
+            .join("\n"),
+        ]
+      : []),
+    ...((analysis.suspectedTriggers ?? []).length
+      ? [
+          "",
+          "## Suspected Triggers",
+          analysis.suspectedTriggers.map((t) => `- ${describeTrigger(t)}`).join("\n"),
+        ]
+      : []),
+    ...((analysis.similarIncidents ?? []).length
+      ? [
+          "",
+          "## Similar Past Incidents",
+          analysis.similarIncidents
+            .map((s) =>
+              [
+                `- **${s.title}** (${s.id}) — ${Math.round(s.score * 100)}% similar, ${formatStatus(
+                  s.status
+                )}, saved ${s.createdAt}`,
+                ...s.resolutionNotes.map((n) => `  - ${n.at} — ${n.by}: ${n.text}`),
+              ].join("\n")
+            )
+            .join("\n"),
+        ]
+      : []),
     "",
     "## Recommended Actions",
     analysis.actions.map((a) => `- ${a}`).join("\n"),
+    ...((analysis.runbooks ?? []).length
+      ? [
+          "",
+          "## Runbooks",
+          runbookMarkdown(analysis.runbooks, params.runbookActivity ?? []),
+        ]
+      : []),
     "",
     "## Business Impact",
     analysis.businessImpact,
@@ -91,10 +332,93 @@ function toMarkdownBrief(params: {
     "## Recent Logs (sample)",
     telemetry.logs.map((l) => `- \`${l}\``).join("\n"),
     "",
-    "_Generated from an uploaded log snippet (local demo MVP)._",
+    `_Generated from an uploaded log snippet (local demo MVP), rule catalog v${analysis.ruleVersion}, scoring policy v${analysis.policyVersion}, narrative by ${
+      analysis.generator ? describeGenerator(analysis.generator) : "template"
+    }._`,
   ].join("\n");
 }
 
+// files above this are streamed from disk instead of read into the editor
+const STREAM_THRESHOLD_BYTES = 5 * 1024 * 1024;
+
+function formatBytes(n: number) {
+  if (n >= 1024 * 1024) return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+  if (n >= 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${n} bytes`;
+}
+
+async function readNdjson<T>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let carry = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    carry += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const parts = carry.split("\n");
+    carry = done ? "" : parts.pop() ?? "";
+    for (const p of parts) if (p.trim()) onEvent(JSON.parse(p) as T);
+    if (done) break;
+  }
+}
+
+// zone used for timestamps without an offset; the API accepts any IANA name
+const TIME_ZONES = [
+  "UTC",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Paris",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "America/Sao_Paulo",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+const CSV_MAPPING_KEY = "btp-ops-copilot:csv-mapping:";
+
+function loadCsvMapping(signature: string): CsvOptions | null {
+  try {
+    const saved = window.localStorage.getItem(CSV_MAPPING_KEY + signature);
+    return saved ? (JSON.parse(saved) as CsvOptions) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveCsvMapping(signature: string, opts: CsvOptions) {
+  try {
+    window.localStorage.setItem(CSV_MAPPING_KEY + signature, JSON.stringify(opts));
+  } catch {
+    // ignore (private mode / quota)
+  }
+}
+
+function csvPreviewRows(text: string, delimiter: string) {
+  // enough for the mapping step; quoted newlines past the cut are irrelevant
+  return parseCsv(text.slice(0, 20000), delimiter).slice(0, 6);
+}
+
+function csvSignatureFor(text: string) {
+  const delimiter = detectDelimiter(text);
+  const rows = csvPreviewRows(text, delimiter);
+  return { delimiter, rows, signature: headerSignature(rows[0] ?? [], delimiter) };
+}
+
+/** Request entry for one file of a bundle; CSVs reuse a saved column mapping. */
+function toBundleFile(file: UploadedFile) {
+  if (!file.name.toLowerCase().endsWith(".csv")) {
+    return { name: file.name, text: file.text };
+  }
+  const saved = loadCsvMapping(csvSignatureFor(file.text).signature);
+  return { name: file.name, text: file.text, format: "csv", csv: saved ?? undefined };
+}
+
 function severityTone(sev?: "Low" | "Medium" | "High") {
   if (sev === "High") {
     return {
@@ -143,7 +467,14 @@ function signalTone(key: string, val: number) {
   const k = key.toLowerCase();
   if (val <= 0) return "border-neutral-800 bg-neutral-950/65";
 
-  if (k.includes("http_5xx") || k.includes("timeouts") || k.includes("errors")) {
+  if (
+    k.includes("http_5xx") ||
+    k.includes("timeouts") ||
+    k.includes("errors") ||
+    k.includes("crash") ||
+    /^rtr_5\d\d$/.test(k) ||
+    k.startsWith("router_error")
+  ) {
     return "border-rose-500/22 bg-gradient-to-br from-rose-500/10 to-neutral-950/65 shadow-[0_0_24px_rgba(244,63,94,0.10)]";
   }
   if (k.includes("warn")) {
@@ -217,13 +548,43 @@ export default function Page() {
       error_rate_pct: 0,
     },
     logs: [],
+    patterns: [],
   });
 
   // Raw text and file handling
   const [rawText, setRawText] = useState<string>("");
   const [fileName, setFileName] = useState<string>("");
   const [fileBytes, setFileBytes] = useState<number>(0);
+  const [sourceFormat, setSourceFormat] = useState<string>("");
+  const [csvOptions, setCsvOptions] = useState<CsvOptions | null>(null);
+  const [csvSignature, setCsvSignature] = useState<string>("");
+  const [csvMappingOpen, setCsvMappingOpen] = useState(false);
+  const [bundleFiles, setBundleFiles] = useState<UploadedFile[]>([]);
+  const [sources, setSources] = useState<SourceBreakdown[]>([]);
+  const [series, setSeries] = useState<SignalSeries | null>(null);
+  const [traces, setTraces] = useState<Trace[]>([]);
+  const [timeZone, setTimeZone] = useState<string>("UTC");
+  const [baselineMode, setBaselineMode] = useState<"none" | "upload" | "window">(
+    "none"
+  );
+  const [baselineUpload, setBaselineUpload] = useState<UploadedFile | null>(null);
+  const [baselineWindow, setBaselineWindow] = useState({ start: "", end: "" });
+  const baselineRef = useRef<HTMLInputElement | null>(null);
+  const [changeUpload, setChangeUpload] = useState<{
+    name: string;
+    events: ChangeEvent[];
+  } | null>(null);
+  const changeRef = useRef<HTMLInputElement | null>(null);
+  const [streamFile, setStreamFile] = useState<File | null>(null);
+  const [streamHead, setStreamHead] = useState<string>("");
+  const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(
+    null
+  );
   const fileRef = useRef<HTMLInputElement | null>(null);
+  // the text last ingested, by bundle file name ("" for a single text),
+  // so evidence can be shown in place
+  const [inputText, setInputText] = useState<Map<string, string> | null>(null);
+  const [sourceLine, setSourceLine] = useState<EvidenceLine | null>(null);
 
   // State machine
   const [loadingIngest, setLoadingIngest] = useState(false);
@@ -233,31 +594,104 @@ export default function Page() {
   );
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
+  // Runbook progress: who ticked which step and when
+  const [operator, setOperator] = useState("");
+  const [runbookActivity, setRunbookActivity] = useState<RunbookActivity[]>([]);
+
+  // Incident history: the last ingest result and, once saved, its record id
+  const [ingestResult, setIngestResult] = useState<IngestResponse["incident"] | null>(null);
+  const [savedIncident, setSavedIncident] = useState<SavedStamp | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<IncidentSummary[] | null>(null);
+  const [unreadable, setUnreadable] = useState<string[]>([]);
+  const [lifecycle, setLifecycle] = useState<Lifecycle | null>(null);
+
+  // Compare view: each side is "current" or "<incident id>@<brief revision>"
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [compareChoice, setCompareChoice] = useState({ before: "", after: "" });
+  const [comparison, setComparison] = useState<IncidentComparison | null>(null);
+
+  // Postmortem editor: the saved draft, else a freshly generated one
+  const [postmortemOpen, setPostmortemOpen] = useState(false);
+  const [postmortemDraft, setPostmortemDraft] = useState<string | null>(null);
+  const [postmortemVersion, setPostmortemVersion] = useState<string | undefined>();
+  const [postmortemSaved, setPostmortemSaved] = useState<IncidentRecord["postmortem"]>();
+  const [savingPostmortem, setSavingPostmortem] = useState(false);
+
   // Export modal
   const [exportOpen, setExportOpen] = useState(false);
   const [copied, setCopied] = useState(false);
 
   const tone = severityTone(analysis?.severity);
 
+  // lifecycle clocks start when failures began
+  const onset = failureOnset(series ?? undefined, analysis?.onset);
+
   const mdBrief = useMemo(() => {
     if (!analysis) return "";
-    return toMarkdownBrief({ scenario, telemetry, analysis });
-  }, [analysis, scenario, telemetry]);
+    return toMarkdownBrief({ scenario, telemetry, analysis, runbookActivity, lifecycle, onset });
+  }, [analysis, scenario, telemetry, runbookActivity, lifecycle, onset]);
 
-  const readyForIngest = rawText.trim().length > 0 && !loadingIngest;
+  const changeEvents = useMemo(
+    () => sortEvents([...(telemetry.changeEvents ?? []), ...(changeUpload?.events ?? [])]),
+    [telemetry.changeEvents, changeUpload]
+  );
+
+  const readyForIngest =
+    (rawText.trim().length > 0 || !!streamFile) && !loadingIngest;
   const readyForAnalyze =
     !loadingAnalyze && !loadingIngest && telemetry.logs.length > 0;
 
   const step1Done = telemetry.logs.length > 0;
   const step2Done = !!analysis;
 
-  async function ingestText(text: string) {
-    const payload = (text ?? "").trim();
-    if (!payload) {
+  const csvPreview = useMemo(() => {
+    if (!csvOptions) return [];
+    return csvPreviewRows(streamFile ? streamHead : rawText, csvOptions.delimiter);
+  }, [csvOptions, rawText, streamFile, streamHead]);
+
+  async function ingestText(text: string, csv: CsvOptions | null = csvOptions) {
+    const payload = text ?? "";
+    if (!payload.trim()) {
       setErrorMsg("No log content loaded. Upload a file or paste logs first.");
       return;
     }
 
+    // sent untrimmed so evidence line numbers match the editor
+    setInputText(new Map([["", payload]]));
+    await runIngest(
+      csv ? { text: payload, format: "csv", csv } : { text: payload }
+    );
+  }
+
+  async function ingestFiles(files: UploadedFile[]) {
+    if (!files.length) {
+      setErrorMsg("The upload contained no readable log files.");
+      return;
+    }
+
+    setInputText(new Map(files.map((f) => [f.name, f.text])));
+    await runIngest({ files: files.map(toBundleFile) });
+  }
+
+  /** Baseline part of an /api/ingest payload, if one is configured. */
+  function baselinePayload() {
+    if (baselineMode === "upload" && baselineUpload) {
+      return { text: baselineUpload.text };
+    }
+    if (baselineMode === "window" && (baselineWindow.start || baselineWindow.end)) {
+      return {
+        window: {
+          start: baselineWindow.start || undefined,
+          end: baselineWindow.end || undefined,
+        },
+      };
+    }
+    return undefined;
+  }
+
+  async function runIngest(body: object) {
     setLoadingIngest(true);
     setErrorMsg(null);
     setAnalysis(null);
@@ -266,7 +700,7 @@ export default function Page() {
       const res = await fetch("/api/ingest", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text: payload }),
+        body: JSON.stringify({ ...body, timeZone, baseline: baselinePayload() }),
       });
 
       if (!res.ok) {
@@ -275,22 +709,7 @@ export default function Page() {
       }
 
       const json = (await res.json()) as IngestResponse;
-      const incident = json.incident;
-
-      setTelemetry({
-        service: incident.serviceGuess,
-        region: incident.regionGuess,
-        signals: incident.derivedSignals,
-        logs: incident.sampleLines,
-      });
-
-      setScenario(
-        `Uploaded Incident${
-          incident.timeWindow?.start
-            ? ` (${incident.timeWindow.start} → ${incident.timeWindow.end})`
-            : ""
-        }`
-      );
+      applyIncident(json.incident);
     } catch (e: any) {
       setErrorMsg(e?.message ?? "Failed to ingest logs.");
     } finally {
@@ -298,8 +717,221 @@ export default function Page() {
     }
   }
 
+  function applyIncident(incident: IngestResponse["incident"]) {
+    const { traces: traceList, ...traceStats } = incident.traces;
+    setTelemetry({
+      service: incident.serviceGuess,
+      region: incident.regionGuess,
+      signals: incident.derivedSignals,
+      logs: incident.sampleLines,
+      patterns: incident.topPatterns,
+      breakdown: incident.breakdown,
+      traces: traceStats,
+      templates: incident.templates,
+      baseline: incident.baseline,
+      anomalies: incident.anomalies,
+      patternEvidence: incident.patternEvidence,
+      changeEvents: incident.changeEvents,
+      latency: incident.latency,
+      blastRadius: incident.blastRadius,
+      sloSeries: incident.sloSeries,
+    });
+    setTraces(traceList);
+    setSourceFormat(incident.sourceFormat);
+    setSources(incident.sources ?? []);
+    setSeries(incident.series);
+    setIngestResult(incident);
+    // runbook progress and the saved record belong to the previous incident
+    setRunbookActivity([]);
+    setSavedIncident(null);
+    setLifecycle(null);
+
+    setScenario(
+      `Uploaded Incident${
+        incident.timeWindow?.start
+          ? ` (${incident.timeWindow.start} → ${incident.timeWindow.end})`
+          : ""
+      }`
+    );
+  }
+
   async function ingestLogs() {
-    await ingestText(rawText);
+    if (streamFile) await streamIngest(streamFile);
+    else if (bundleFiles.length) await ingestFiles(bundleFiles);
+    else if (!csvOptions && looksLikeCsv(rawText)) await prepareCsv(rawText);
+    else await ingestText(rawText);
+  }
+
+  async function handleUpload(picked: File[]) {
+    if (!picked.length) return;
+
+    setErrorMsg(null);
+    setAnalysis(null);
+    setCsvOptions(null);
+    setCsvSignature("");
+    setCsvMappingOpen(false);
+
+    // one large file: stream it from disk instead of reading it into memory
+    const single = picked.length === 1 ? picked[0] : null;
+    if (single && !isArchive(single.name) && single.size > STREAM_THRESHOLD_BYTES) {
+      setBundleFiles([]);
+      setStreamFile(single);
+      setRawText("");
+      setFileName(single.name);
+      setFileBytes(single.size);
+
+      if (single.name.toLowerCase().endsWith(".csv")) {
+        const head = await single.slice(0, 65536).text();
+        setStreamHead(head);
+        await prepareCsv(head, single);
+        return;
+      }
+
+      await streamIngest(single, null);
+      return;
+    }
+
+    let uploads: UploadedFile[];
+    try {
+      uploads = (await Promise.all(picked.map(readUpload))).flat();
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to read upload.");
+      return;
+    }
+
+    setStreamFile(null);
+    setStreamProgress(null);
+
+    // several files or an archive: one merged, time-ordered incident
+    if (!single || isArchive(single.name)) {
+      setBundleFiles(uploads);
+      setRawText(
+        uploads.map((u) => `==> ${u.name} <==\n${u.text}`).join("\n\n")
+      );
+      setFileName(`${uploads.length} file${uploads.length === 1 ? "" : "s"}`);
+      setFileBytes(picked.reduce((sum, f) => sum + f.size, 0));
+      await ingestFiles(uploads);
+      return;
+    }
+
+    const text = uploads[0]?.text ?? "";
+
+    setBundleFiles([]);
+    setRawText(text);
+    setFileName(single.name);
+    setFileBytes(single.size);
+
+    if (single.name.toLowerCase().endsWith(".csv") || looksLikeCsv(text)) {
+      await prepareCsv(text);
+      return;
+    }
+
+    await ingestText(text, null);
+  }
+
+  async function streamIngest(file: File, csv: CsvOptions | null = csvOptions) {
+    setLoadingIngest(true);
+    setErrorMsg(null);
+    setAnalysis(null);
+
+    const startedAt = Date.now();
+    setInputText(null);
+    setStreamProgress({ lines: 0, bytes: 0, total: file.size, etaSec: null });
+
+    try {
+      const params = new URLSearchParams({ tz: timeZone });
+      const baseWindow = baselinePayload()?.window;
+      if (baseWindow?.start) params.set("baselineStart", baseWindow.start);
+      if (baseWindow?.end) params.set("baselineEnd", baseWindow.end);
+      if (csv) {
+        params.set("format", "csv");
+        params.set("csv", JSON.stringify(csv));
+      }
+
+      const res = await fetch(`/api/ingest/stream?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+      });
+
+      if (!res.ok || !res.body) {
+        const t = await res.text().catch(() => "");
+        throw new Error(`Ingest error ${res.status}${t ? `: ${t}` : ""}`);
+      }
+
+      let incident: IngestResponse["incident"] | null = null;
+      await readNdjson<StreamEvent>(res.body, (event) => {
+        if (event.type === "progress") {
+          const elapsed = (Date.now() - startedAt) / 1000;
+          const rate = elapsed > 0 ? event.bytes / elapsed : 0;
+          setStreamProgress({
+            lines: event.lines,
+            bytes: event.bytes,
+            total: file.size,
+            etaSec: rate > 0 ? Math.max(0, (file.size - event.bytes) / rate) : null,
+          });
+        } else if (event.type === "result") {
+          incident = event.incident;
+        } else {
+          throw new Error(event.error);
+        }
+      });
+
+      if (!incident) throw new Error("Ingest stream ended without a result.");
+      const result: IngestResponse["incident"] = incident;
+
+      // an uploaded baseline is small enough for the regular route
+      if (baselineMode === "upload" && baselineUpload) {
+        const baseRes = await fetch("/api/ingest", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text: baselineUpload.text, timeZone }),
+        });
+        if (!baseRes.ok) {
+          const t = await baseRes.text().catch(() => "");
+          throw new Error(`Baseline ingest error ${baseRes.status}${t ? `: ${t}` : ""}`);
+        }
+        const base = (await baseRes.json()) as IngestResponse;
+        result.baseline = toBaseline(base.incident, "upload");
+      }
+      applyIncident(result);
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to ingest logs.");
+    } finally {
+      setLoadingIngest(false);
+    }
+  }
+
+  /** Detects CSV layout; ingests straight away if this header was mapped before. */
+  async function prepareCsv(text: string, file?: File) {
+    const { delimiter, rows, signature } = csvSignatureFor(text);
+    const hasHeader = detectHeader(rows);
+
+    setCsvSignature(signature);
+
+    const saved = loadCsvMapping(signature);
+    if (saved) {
+      setCsvOptions(saved);
+      setCsvMappingOpen(false);
+      if (file) await streamIngest(file, saved);
+      else await ingestText(text, saved);
+      return;
+    }
+
+    setCsvOptions({
+      delimiter,
+      hasHeader,
+      mapping: guessColumnMapping(columnNames(rows, hasHeader)),
+    });
+    setCsvMappingOpen(true);
+  }
+
+  async function applyCsvMapping() {
+    if (!csvOptions) return;
+    if (csvSignature) saveCsvMapping(csvSignature, csvOptions);
+    setCsvMappingOpen(false);
+    if (streamFile) await streamIngest(streamFile, csvOptions);
+    else await ingestText(rawText, csvOptions);
   }
 
   async function generate() {
@@ -315,7 +947,13 @@ export default function Page() {
       const res = await fetch("/api/analyze", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ scenario, ...telemetry }),
+        body: JSON.stringify({
+          scenario,
+          ...telemetry,
+          changeEvents,
+          series,
+          incidentId: savedIncident?.id,
+        }),
       });
 
       if (!res.ok) {
@@ -365,12 +1003,308 @@ export default function Page() {
     await copyText(text);
   }
 
+  /** Metadata of the files behind the current incident, for the saved record. */
+  function sourceFiles(): SourceFile[] {
+    const logs: SourceFile[] = bundleFiles.length
+      ? bundleFiles.map((f) => ({ name: f.name, bytes: f.bytes, role: "logs" }))
+      : [{ name: fileName || "pasted logs", bytes: fileName ? fileBytes : rawText.length, role: "logs" }];
+    return [
+      ...logs,
+      ...(baselineMode === "upload" && baselineUpload
+        ? [{ name: baselineUpload.name, bytes: baselineUpload.bytes, role: "baseline" as const }]
+        : []),
+      ...(changeUpload ? [{ name: changeUpload.name, role: "changes" as const }] : []),
+    ];
+  }
+
+  async function saveIncident() {
+    if (!ingestResult || !analysis || !operator.trim()) return;
+
+    setSaving(true);
+    setErrorMsg(null);
+    try {
+      const res = savedIncident
+        ? await fetch(`/api/incidents/${savedIncident.id}`, {
+            method: "PATCH",
+            // the brief and lists replace the stored ones: refuse if someone saved since
+            headers: {
+              "Content-Type": "application/json",
+              "If-Match": `"${savedIncident.revision}"`,
+            },
+            body: JSON.stringify({
+              title: scenario,
+              analysis,
+              uploadedChanges: changeUpload?.events ?? [],
+              runbookActivity,
+              updatedBy: operator,
+            }),
+          })
+        : await fetch("/api/incidents", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              title: scenario,
+              createdBy: operator,
+              files: sourceFiles(),
+              timeZone,
+              ingest: ingestResult,
+              analysis,
+              uploadedChanges: changeUpload?.events ?? [],
+              runbookActivity,
+            }),
+          });
+
+      if (!res.ok) {
+        const t = await res.text().catch(() => "");
+        throw new Error(`Save error ${res.status}${t ? `: ${t}` : ""}`);
+      }
+
+      const { incident } = (await res.json()) as { incident: IncidentRecord };
+      setSavedIncident(savedStamp(incident));
+      setLifecycle(incident.lifecycle);
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to save the incident.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  /** Status change, role assignment or note on the saved incident, made as the operator. */
+  async function updateLifecycle(patch: LifecyclePatch) {
+    if (!savedIncident || !operator.trim()) return;
+
+    setErrorMsg(null);
+    try {
+      const res = await fetch(`/api/incidents/${savedIncident.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...patch, updatedBy: operator }),
+      });
+      if (!res.ok) {
+        const t = await res.text().catch(() => "");
+        throw new Error(`Update error ${res.status}${t ? `: ${t}` : ""}`);
+      }
+
+      const { incident } = (await res.json()) as { incident: IncidentRecord };
+      setSavedIncident(savedStamp(incident));
+      setLifecycle(incident.lifecycle);
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to update the incident.");
+    }
+  }
+
+  async function loadHistory() {
+    setHistoryOpen(true);
+    setHistory(null);
+    try {
+      const res = await fetch("/api/incidents");
+      if (!res.ok) throw new Error(`History error ${res.status}`);
+      const list = (await res.json()) as IncidentList;
+      setHistory(list.incidents);
+      setUnreadable(list.unreadable);
+    } catch (e: unknown) {
+      setHistoryOpen(false);
+      setErrorMsg(e instanceof Error ? e.message : "Failed to load incident history.");
+    }
+  }
+
+  /** Restores a saved incident: telemetry, brief and runbook progress as they were saved. */
+  async function openIncident(id: string) {
+    if (loadingIngest || loadingAnalyze) return;
+    try {
+      const res = await fetch(`/api/incidents/${id}`);
+      if (!res.ok) throw new Error(`Open error ${res.status}`);
+      const { incident } = (await res.json()) as { incident: IncidentRecord };
+
+      clearAll();
+      applyIncident(incident.ingest);
+      const logs = incident.files.filter((f) => f.role === "logs");
+      setFileName(logs.length === 1 ? logs[0].name : `${logs.length} files`);
+      setFileBytes(logs.reduce((sum, f) => sum + (f.bytes ?? 0), 0));
+      if (incident.timeZone) setTimeZone(incident.timeZone);
+      if (incident.uploadedChanges.length) {
+        setChangeUpload({
+          name: incident.files.find((f) => f.role === "changes")?.name ?? "saved change events",
+          events: incident.uploadedChanges,
+        });
+      }
+      setScenario(incident.title);
+      setAnalysis(incident.analysis ?? null);
+      setRunbookActivity(incident.runbookActivity);
+      setSavedIncident(savedStamp(incident));
+      setLifecycle(incident.lifecycle);
+      setHistoryOpen(false);
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to open the incident.");
+    }
+  }
+
+  async function openCompare() {
+    setCompareOpen(true);
+    setComparison(null);
+    setHistory(null);
+    try {
+      const res = await fetch("/api/incidents");
+      if (!res.ok) throw new Error(`History error ${res.status}`);
+      const { incidents } = (await res.json()) as { incidents: IncidentSummary[] };
+      setHistory(incidents);
+      // default: the latest saved brief against the one on screen
+      const latest = incidents[0] ? `${incidents[0].id}@${incidents[0].revisions}` : "";
+      setCompareChoice({
+        before: latest,
+        after: analysis ? "current" : incidents[1] ? `${incidents[1].id}@${incidents[1].revisions}` : "",
+      });
+    } catch (e: unknown) {
+      setCompareOpen(false);
+      setErrorMsg(e instanceof Error ? e.message : "Failed to load incident history.");
+    }
+  }
+
+  async function compareSideFor(choice: string): Promise<CompareSide> {
+    if (choice === "current") {
+      return {
+        label: `${scenario} (on screen)`,
+        signals: telemetry.signals,
+        patterns: telemetry.patterns,
+        brief: analysis ?? undefined,
+      };
+    }
+    const [id, rev] = choice.split("@");
+    const res = await fetch(`/api/incidents/${id}`);
+    if (!res.ok) throw new Error(`Open error ${res.status}`);
+    const { incident } = (await res.json()) as { incident: IncidentRecord };
+    const side = recordSide(incident, rev ? Number(rev) : undefined);
+    if ("error" in side) throw new Error(side.error);
+    return side;
+  }
+
+  async function runCompare() {
+    setErrorMsg(null);
+    try {
+      const [before, after] = await Promise.all([
+        compareSideFor(compareChoice.before),
+        compareSideFor(compareChoice.after),
+      ]);
+      setComparison(compareIncidents(before, after));
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to compare.");
+    }
+  }
+
+  async function generatePostmortem(id: string) {
+    const res = await fetch(`/api/incidents/${id}/postmortem`);
+    if (!res.ok) {
+      const t = await res.text().catch(() => "");
+      throw new Error(`Postmortem error ${res.status}${t ? `: ${t}` : ""}`);
+    }
+    const { postmortem } = (await res.json()) as { postmortem: PostmortemDoc };
+    setPostmortemDraft(postmortem.markdown);
+    setPostmortemVersion(postmortem.templateVersion);
+  }
+
+  async function openPostmortem() {
+    if (!savedIncident) return;
+
+    setPostmortemOpen(true);
+    setPostmortemDraft(null);
+    setErrorMsg(null);
+    try {
+      const res = await fetch(`/api/incidents/${savedIncident.id}`);
+      if (!res.ok) throw new Error(`Open error ${res.status}`);
+      const { incident } = (await res.json()) as { incident: IncidentRecord };
+      setPostmortemSaved(incident.postmortem);
+      if (incident.postmortem) {
+        setPostmortemDraft(incident.postmortem.markdown);
+        setPostmortemVersion(incident.postmortem.templateVersion);
+      } else {
+        await generatePostmortem(savedIncident.id);
+      }
+    } catch (e: unknown) {
+      setPostmortemOpen(false);
+      setErrorMsg(e instanceof Error ? e.message : "Failed to open the postmortem.");
+    }
+  }
+
+  async function regeneratePostmortem() {
+    if (!savedIncident) return;
+    if (postmortemSaved && !window.confirm("Replace the edited draft with a freshly generated one?")) return;
+
+    setPostmortemDraft(null);
+    try {
+      await generatePostmortem(savedIncident.id);
+    } catch (e: unknown) {
+      setPostmortemOpen(false);
+      setErrorMsg(e instanceof Error ? e.message : "Failed to generate the postmortem.");
+    }
+  }
+
+  async function savePostmortem() {
+    if (!savedIncident || postmortemDraft === null || !operator.trim()) return;
+
+    setSavingPostmortem(true);
+    try {
+      const res = await fetch(`/api/incidents/${savedIncident.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          postmortem: { markdown: postmortemDraft, templateVersion: postmortemVersion },
+          updatedBy: operator,
+        }),
+      });
+      if (!res.ok) {
+        const t = await res.text().catch(() => "");
+        throw new Error(`Save error ${res.status}${t ? `: ${t}` : ""}`);
+      }
+
+      const { incident } = (await res.json()) as { incident: IncidentRecord };
+      setSavedIncident(savedStamp(incident));
+      setPostmortemSaved(incident.postmortem);
+    } catch (e: unknown) {
+      setPostmortemOpen(false);
+      setErrorMsg(e instanceof Error ? e.message : "Failed to save the postmortem.");
+    } finally {
+      setSavingPostmortem(false);
+    }
+  }
+
+  async function removeIncident(id: string) {
+    if (!window.confirm("Delete this saved incident?")) return;
+    try {
+      const res = await fetch(`/api/incidents/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`Delete error ${res.status}`);
+      setHistory((prev) => prev?.filter((h) => h.id !== id) ?? null);
+      if (savedIncident?.id === id) setSavedIncident(null);
+    } catch (e: unknown) {
+      setErrorMsg(e instanceof Error ? e.message : "Failed to delete the incident.");
+    }
+  }
+
   function clearAll() {
     if (loadingIngest || loadingAnalyze) return;
 
     setRawText("");
     setFileName("");
     setFileBytes(0);
+    setSourceFormat("");
+    setCsvOptions(null);
+    setCsvSignature("");
+    setCsvMappingOpen(false);
+    setBundleFiles([]);
+    setSources([]);
+    setSeries(null);
+    setTraces([]);
+    setBaselineMode("none");
+    setBaselineUpload(null);
+    setBaselineWindow({ start: "", end: "" });
+    setChangeUpload(null);
+    setRunbookActivity([]);
+    setIngestResult(null);
+    setSavedIncident(null);
+    setLifecycle(null);
+    setStreamFile(null);
+    setStreamHead("");
+    setStreamProgress(null);
+    setInputText(null);
 
     setTelemetry({
       service: "BTP Service (unknown)",
@@ -384,6 +1318,7 @@ export default function Page() {
         error_rate_pct: 0,
       },
       logs: [],
+      patterns: [],
     });
 
     setScenario("Uploaded Incident");
@@ -497,8 +1432,9 @@ export default function Page() {
                   Ingest Real Logs
                 </h2>
                 <p className="mt-1.5 text-xs text-neutral-400">
-                  Upload a .log/.txt/.csv/.json file or paste log lines. Upload
-                  auto-ingests to unlock Generate immediately.
+                  Upload .log/.txt/.csv/.json files (or a .zip/.tar.gz bundle)
+                  or paste log lines. Upload auto-ingests to unlock Generate
+                  immediately.
                 </p>
               </div>
               <div className="rounded-2xl border border-neutral-800 bg-neutral-950/60 px-3.5 py-2.5">
@@ -518,24 +1454,13 @@ export default function Page() {
               <input
                 ref={fileRef}
                 type="file"
-                accept=".txt,.log,.json,.csv"
+                accept=".txt,.log,.json,.ndjson,.csv,.zip,.tar,.tgz,.gz"
+                multiple
                 className="hidden"
                 onChange={async () => {
-                  const input = fileRef.current;
-                  const file = input?.files?.[0];
-                  if (!file) return;
-
-                  const text = await file.text();
-
-                  setRawText(text);
-                  setFileName(file.name);
-                  setFileBytes(file.size);
-                  setErrorMsg(null);
-                  setAnalysis(null);
-
+                  const picked = Array.from(fileRef.current?.files ?? []);
                   if (fileRef.current) fileRef.current.value = "";
-
-                  await ingestText(text);
+                  await handleUpload(picked);
                 }}
               />
 
@@ -574,14 +1499,14 @@ export default function Page() {
 
             {/* File + content indicators */}
             <div className="mt-4 rounded-2xl border border-neutral-800 bg-neutral-950/60 p-3.5">
-              <div className="grid gap-2 md:grid-cols-3">
+              <div className="grid gap-2 md:grid-cols-4">
                 <div className="text-[11px] text-neutral-300">
                   <span className="font-semibold text-neutral-100">File:</span>{" "}
                   {fileName ? fileName : "—"}
                 </div>
                 <div className="text-[11px] text-neutral-300">
                   <span className="font-semibold text-neutral-100">Size:</span>{" "}
-                  {fileName ? `${fileBytes} bytes` : "—"}
+                  {fileName ? formatBytes(fileBytes) : "—"}
                 </div>
                 <div className="text-[11px] text-neutral-300">
                   <span className="font-semibold text-neutral-100">
@@ -589,19 +1514,175 @@ export default function Page() {
                   </span>{" "}
                   {rawText.length}
                 </div>
+                <div className="text-[11px] text-neutral-300">
+                  <span className="font-semibold text-neutral-100">Format:</span>{" "}
+                  {sourceFormat === "cf"
+                    ? "cf logs"
+                    : sourceFormat === "mixed"
+                    ? "Mixed"
+                    : sourceFormat
+                    ? sourceFormat.toUpperCase()
+                    : "—"}
+                </div>
               </div>
               <div className="mt-2 text-[10px] text-neutral-500">
                 If ingestion succeeds, “Sample lines parsed” will be greater
                 than 0.
               </div>
+              {streamProgress && <StreamProgressBar progress={streamProgress} />}
+              <label className="mt-3 flex items-center gap-2 text-[11px] text-neutral-300">
+                <span className="font-semibold text-neutral-100">Time zone:</span>
+                <select
+                  value={timeZone}
+                  onChange={(e) => setTimeZone(e.target.value)}
+                  className="rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px]"
+                >
+                  {TIME_ZONES.map((tz) => (
+                    <option key={tz} value={tz}>
+                      {tz}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-[10px] text-neutral-500">
+                  for timestamps without an offset
+                </span>
+              </label>
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-[11px] text-neutral-300">
+                <span className="font-semibold text-neutral-100">Baseline:</span>
+                <select
+                  value={baselineMode}
+                  onChange={(e) =>
+                    setBaselineMode(e.target.value as "none" | "upload" | "window")
+                  }
+                  className="rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px]"
+                >
+                  <option value="none">None</option>
+                  <option value="upload">Separate file</option>
+                  <option value="window">Window of this upload</option>
+                </select>
+                {baselineMode === "upload" && (
+                  <>
+                    <input
+                      ref={baselineRef}
+                      type="file"
+                      accept=".txt,.log,.json,.ndjson"
+                      className="hidden"
+                      onChange={async () => {
+                        const file = baselineRef.current?.files?.[0];
+                        if (baselineRef.current) baselineRef.current.value = "";
+                        if (!file) return;
+                        const [upload] = await readUpload(file);
+                        setBaselineUpload(upload ?? null);
+                      }}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => baselineRef.current?.click()}
+                      className="rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px] hover:bg-neutral-900"
+                    >
+                      {baselineUpload ? baselineUpload.name : "Choose file"}
+                    </button>
+                  </>
+                )}
+                {baselineMode === "window" && (
+                  <>
+                    <input
+                      type="datetime-local"
+                      value={baselineWindow.start}
+                      onChange={(e) =>
+                        setBaselineWindow({ ...baselineWindow, start: e.target.value })
+                      }
+                      className="rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px]"
+                    />
+                    <span className="text-neutral-500">→</span>
+                    <input
+                      type="datetime-local"
+                      value={baselineWindow.end}
+                      onChange={(e) =>
+                        setBaselineWindow({ ...baselineWindow, end: e.target.value })
+                      }
+                      className="rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px]"
+                    />
+                  </>
+                )}
+                <span className="text-[10px] text-neutral-500">
+                  known-normal logs to compare against; applied on the next ingest
+                </span>
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-[11px] text-neutral-300">
+                <span className="font-semibold text-neutral-100">Change events:</span>
+                <input
+                  ref={changeRef}
+                  type="file"
+                  accept=".json,.txt,.log"
+                  className="hidden"
+                  onChange={async () => {
+                    const file = changeRef.current?.files?.[0];
+                    if (changeRef.current) changeRef.current.value = "";
+                    if (!file) return;
+                    const events = parseChangeEvents(await file.text(), timeZone);
+                    if (!events.length) {
+                      setErrorMsg(`No change events found in ${file.name}.`);
+                      return;
+                    }
+                    setChangeUpload({ name: file.name, events });
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => changeRef.current?.click()}
+                  className="rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px] hover:bg-neutral-900"
+                >
+                  {changeUpload
+                    ? `${changeUpload.name} (${changeUpload.events.length})`
+                    : "Choose file"}
+                </button>
+                {changeUpload && (
+                  <button
+                    type="button"
+                    onClick={() => setChangeUpload(null)}
+                    className="text-[10px] text-neutral-500 hover:text-neutral-300"
+                  >
+                    remove
+                  </button>
+                )}
+                <span className="text-[10px] text-neutral-500">
+                  `cf events` output, CF audit events or a deployments JSON list
+                </span>
+              </div>
             </div>
 
+            {csvMappingOpen && csvOptions && (
+              <CsvMappingPanel
+                options={csvOptions}
+                previewRows={csvPreview}
+                disabled={loadingIngest}
+                onChange={setCsvOptions}
+                onApply={applyCsvMapping}
+              />
+            )}
+
             {/* Paste area */}
             <div className="mt-5">
               <textarea
                 value={rawText}
-                onChange={(e) => setRawText(e.target.value)}
-                placeholder="Paste log snippet here (recommended: 50–300 lines), then click Ingest Logs."
+                onChange={(e) => {
+                  setRawText(e.target.value);
+                  // edited text is ingested as a single paste from now on
+                  if (bundleFiles.length) setBundleFiles([]);
+                  if (streamFile) setStreamFile(null);
+                  // a mapping chosen for other text must not be applied to this one
+                  if (csvOptions) {
+                    setCsvOptions(null);
+                    setCsvSignature("");
+                    setCsvMappingOpen(false);
+                  }
+                }}
+                placeholder={
+                  streamFile
+                    ? `${streamFile.name} is streamed from disk (too large for the editor). Click Ingest Logs to re-run it.`
+                    : "Paste log snippet here (recommended: 50–300 lines), then click Ingest Logs."
+                }
                 className="w-full h-[220px] rounded-2xl border border-neutral-800 bg-neutral-950/70 p-4 text-[11px] text-neutral-200 font-mono leading-relaxed focus:outline-none focus:ring-2 focus:ring-sky-500/25"
               />
               <div className="mt-2 text-[11px] text-neutral-500">
@@ -620,6 +1701,25 @@ export default function Page() {
                 <Metric label="Region (guess)" value={telemetry.region} />
               </div>
 
+              {telemetry.baseline && (
+                <div className="mt-3 rounded-2xl border border-neutral-800 bg-neutral-950/65 p-3 text-[11px] text-neutral-300">
+                  <span className="font-semibold text-neutral-100">Baseline</span>{" "}
+                  ({telemetry.baseline.source === "window" ? "window" : "separate file"}
+                  {telemetry.baseline.timeWindow.start &&
+                    `, ${telemetry.baseline.timeWindow.start} → ${telemetry.baseline.timeWindow.end}`}
+                  ): {getNum(telemetry.baseline.derivedSignals.log_lines)} lines, error rate{" "}
+                  {getNum(telemetry.baseline.derivedSignals.error_rate_pct)}%, 5xx{" "}
+                  {getNum(telemetry.baseline.derivedSignals.http_5xx)}
+                  {analysis?.baseline?.deviations.length ? (
+                    <ul className="mt-2 list-disc pl-5 text-amber-200">
+                      {analysis.baseline.deviations.map((d) => (
+                        <li key={d.signal}>{d.note}</li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </div>
+              )}
+
               <div className="mt-5">
                 <h4 className="text-sm font-semibold text-neutral-100 mb-3">
                   Derived Signals
@@ -639,6 +1739,119 @@ export default function Page() {
                 </div>
               </div>
 
+              {series && series.buckets.length > 1 && (
+                <div className="mt-5">
+                  <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                    Activity (per {series.bucketMinutes} min)
+                  </h4>
+                  <SeriesChart series={series} anomalies={telemetry.anomalies ?? []} />
+                  {!!telemetry.anomalies?.length && (
+                    <ul className="mt-3 space-y-1.5 text-[11px] text-neutral-300">
+                      {telemetry.anomalies.map((w, i) => (
+                        <li
+                          key={w.start}
+                          className={cn(
+                            "rounded-xl border px-3 py-2",
+                            i === 0
+                              ? "border-amber-500/40 bg-amber-500/10"
+                              : "border-neutral-800 bg-neutral-950/65"
+                          )}
+                        >
+                          <span className="font-semibold text-neutral-100">
+                            {w.kind === "shift" ? "Level shift" : "Spike"}
+                          </span>{" "}
+                          {w.start} → {w.end} · {w.magnitude}x normal · {w.signals.errors}{" "}
+                          errors, {w.signals.timeouts} timeouts, {w.signals.http5xx} 5xx
+                          {w.dominantPatterns.length > 0 &&
+                            ` · ${w.dominantPatterns.map((p) => p.pattern).join(", ")}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {telemetry.blastRadius && blastParts(telemetry.blastRadius).length > 0 && (
+                <div className="mt-5">
+                  <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                    Blast radius
+                  </h4>
+                  <BlastRadiusPanel blast={telemetry.blastRadius} />
+                </div>
+              )}
+
+              {telemetry.latency && (
+                <div className="mt-5">
+                  <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                    Latency ({telemetry.latency.count} timed lines)
+                  </h4>
+                  <LatencyPanel latency={telemetry.latency} />
+                </div>
+              )}
+
+              {changeEvents.length > 0 && (
+                <div className="mt-5">
+                  <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                    Change events ({changeEvents.length})
+                  </h4>
+                  <ChangeEventList
+                    events={changeEvents}
+                    triggers={analysis?.suspectedTriggers ?? []}
+                  />
+                </div>
+              )}
+
+              {telemetry.breakdown &&
+                telemetry.breakdown.byService.length +
+                  telemetry.breakdown.byRegion.length >
+                  2 && (
+                  <div className="mt-5">
+                    <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                      Breakdown
+                    </h4>
+                    <BreakdownTable
+                      breakdown={telemetry.breakdown}
+                      components={analysis?.components ?? []}
+                    />
+                  </div>
+                )}
+
+              {!!telemetry.templates?.length && (
+                <div className="mt-5">
+                  <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                    Log templates
+                  </h4>
+                  <TemplateTable
+                    templates={telemetry.templates}
+                    highlight={analysis?.dominantTemplate?.template}
+                  />
+                </div>
+              )}
+
+              {traces.length > 0 && telemetry.traces && (
+                <div className="mt-5">
+                  <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                    Request traces ({telemetry.traces.total}
+                    {telemetry.traces.truncated ? "+" : ""},{" "}
+                    {telemetry.traces.failed} failed)
+                  </h4>
+                  <TracePanel
+                    stats={telemetry.traces}
+                    traces={traces}
+                    onShowLine={setSourceLine}
+                  />
+                </div>
+              )}
+
+              {sources.length > 0 && (
+                <div className="mt-5">
+                  <h4 className="text-sm font-semibold text-neutral-100 mb-3">
+                    Sources ({sources.length})
+                  </h4>
+                  <SourceTable sources={sources} />
+                </div>
+              )}
+
               <div className="mt-5 rounded-2xl border border-neutral-800 bg-neutral-950/65 p-4">
                 <div className="text-[11px] font-semibold text-neutral-200">
                   Sample lines parsed:{" "}
@@ -704,15 +1917,48 @@ export default function Page() {
                 >
                   Export
                 </button>
-              </div>
-            </div>
-
-            {errorMsg && (
-              <div className="mt-5 rounded-2xl border border-rose-500/30 bg-rose-500/10 p-4 text-xs text-rose-100">
-                <div className="font-semibold">Action failed</div>
-                <div className="mt-2 text-rose-100/90">{errorMsg}</div>
-              </div>
-            )}
+
+                <button
+                  className={cn(
+                    "rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40",
+                    (!analysis || !operator.trim() || saving || loadingAnalyze || loadingIngest) &&
+                      "opacity-60 cursor-not-allowed"
+                  )}
+                  onClick={saveIncident}
+                  disabled={!analysis || !operator.trim() || saving || loadingAnalyze || loadingIngest}
+                  title={operator.trim() ? undefined : "Set \"Acting as\" to save"}
+                >
+                  {saving ? "Saving…" : "Save"}
+                </button>
+
+                <button className="rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40" onClick={loadHistory}>
+                  History
+                </button>
+
+                <button className="rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40" onClick={openCompare}>
+                  Compare
+                </button>
+
+                <button
+                  className={cn(
+                    "rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40",
+                    !savedIncident && "opacity-60 cursor-not-allowed"
+                  )}
+                  onClick={openPostmortem}
+                  disabled={!savedIncident}
+                  title={savedIncident ? undefined : "Save the incident to draft its postmortem"}
+                >
+                  Postmortem
+                </button>
+              </div>
+            </div>
+
+            {errorMsg && (
+              <div className="mt-5 rounded-2xl border border-rose-500/30 bg-rose-500/10 p-4 text-xs text-rose-100">
+                <div className="font-semibold">Action failed</div>
+                <div className="mt-2 text-rose-100/90">{errorMsg}</div>
+              </div>
+            )}
 
             <div className="mt-5 rounded-2xl border border-sky-500/14 bg-neutral-950/55 p-4">
               <div className="text-[11px] font-semibold text-neutral-200">
@@ -722,11 +1968,116 @@ export default function Page() {
                 <span className="font-semibold text-neutral-100">Scenario:</span>{" "}
                 {scenario}
               </div>
+              <label className="mt-2 flex items-center gap-2 text-[11px] text-neutral-300">
+                <span className="font-semibold text-neutral-100">Acting as:</span>
+                <input
+                  value={operator}
+                  onChange={(e) => setOperator(e.target.value)}
+                  placeholder="your name (required to save or tick runbook steps)"
+                  className="w-72 rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px]"
+                />
+              </label>
+              {savedIncident && (
+                <div className="mt-2 text-[11px] text-emerald-200">
+                  Saved as {savedIncident.id} by {savedIncident.createdBy} at{" "}
+                  {savedIncident.createdAt}
+                  {savedIncident.updatedAt !== savedIncident.createdAt &&
+                    ` — last updated by ${savedIncident.updatedBy} at ${savedIncident.updatedAt}`}
+                </div>
+              )}
               <div className="mt-2 text-[11px] text-neutral-400">
-                Generate uses derived signals and parsed sample lines.
+                Generate uses derived signals, detected patterns and parsed
+                sample lines.
+                {analysis?.ruleVersion && (
+                  <>
+                    {" "}
+                    Rule catalog v{analysis.ruleVersion}
+                    {analysis.matchedRules.length > 0 &&
+                      ` — matched: ${analysis.matchedRules.join(", ")}`}
+                    .
+                  </>
+                )}
+                {analysis?.generator && (
+                  <>
+                    {" "}
+                    Narrative: {describeGenerator(analysis.generator)}
+                    {analysis.generator.kind === "llm" &&
+                      ` (${analysis.generator.durationMs} ms)`}
+                    {analysis.generator.kind === "template" &&
+                      analysis.generator.fallbackReason &&
+                      ` (fallback: ${analysis.generator.fallbackReason})`}
+                    .
+                  </>
+                )}
               </div>
             </div>
 
+            {analysis && (
+              <div className="mt-4">
+                <Card title="Incident Lifecycle" tone={tone}>
+                  {savedIncident && lifecycle ? (
+                    <LifecyclePanel
+                      key={savedIncident.id}
+                      lifecycle={lifecycle}
+                      onset={onset}
+                      canEdit={operator.trim().length > 0}
+                      onUpdate={updateLifecycle}
+                    />
+                  ) : (
+                    <Placeholder
+                      title="Not tracked yet."
+                      body="Save the incident to track its status, owner, incident commander and responder notes."
+                    />
+                  )}
+                </Card>
+              </div>
+            )}
+
+            {!!analysis?.scoreTrace?.length && (
+              <details className="mt-4 rounded-2xl border border-neutral-800 bg-neutral-950/65 p-4">
+                <summary className="cursor-pointer text-xs font-semibold text-neutral-100">
+                  Why this severity? Score {analysis.score} → {analysis.severity}
+                  <span className="ml-2 text-[10px] font-normal text-neutral-500">
+                    scoring policy v{analysis.policyVersion}
+                  </span>
+                </summary>
+                <ul className="mt-3 space-y-1.5 text-[11px] text-neutral-300">
+                  {analysis.scoreTrace.map((e) => (
+                    <li key={`${e.kind}:${e.id}`} className="flex justify-between gap-4">
+                      <span>
+                        <span className="mr-2 text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+                          {e.kind}
+                        </span>
+                        {e.label}
+                        {e.value !== undefined && (
+                          <span className="text-neutral-500"> ({e.value})</span>
+                        )}
+                      </span>
+                      {e.points !== undefined && (
+                        <span
+                          className={cn(
+                            "shrink-0 font-semibold",
+                            e.points > 0 ? "text-rose-200" : "text-emerald-200"
+                          )}
+                        >
+                          {e.points > 0 ? "+" : ""}
+                          {e.points}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {!!analysis?.slos?.length && (
+              <div className="mt-4 grid gap-3 md:grid-cols-2">
+                {analysis.slos.map((s) => (
+                  <SloCard key={s.id} slo={s} />
+                ))}
+              </div>
+            )}
+
             <div className="mt-6 grid gap-5 lg:grid-cols-2">
               <Card title="Summary" accent tone={tone}>
                 {analysis?.summary ? (
@@ -741,7 +2092,15 @@ export default function Page() {
 
               <Card title="Likely Root Cause" tone={tone}>
                 {analysis?.rootCause ? (
-                  <p className="whitespace-pre-wrap">{analysis.rootCause}</p>
+                  <>
+                    <p className="whitespace-pre-wrap">{analysis.rootCause}</p>
+                    {analysis.hypotheses?.length > 0 && (
+                      <HypothesisList
+                        hypotheses={analysis.hypotheses}
+                        onShowLine={setSourceLine}
+                      />
+                    )}
+                  </>
                 ) : (
                   <Placeholder
                     title="Root-cause hypothesis appears here."
@@ -779,6 +2138,35 @@ export default function Page() {
               </Card>
             </div>
 
+            {!!analysis?.similarIncidents?.length && (
+              <div className="mt-6">
+                <Card title="Similar Past Incidents" tone={tone}>
+                  <SimilarIncidentList
+                    incidents={analysis.similarIncidents}
+                    onOpen={openIncident}
+                  />
+                </Card>
+              </div>
+            )}
+
+            {!!analysis?.runbooks?.length && (
+              <div className="mt-6">
+                <Card title="Runbooks" tone={tone}>
+                  <RunbookPanel
+                    runbooks={analysis.runbooks}
+                    activity={runbookActivity}
+                    operator={operator}
+                    onToggle={(runbook, step, done) =>
+                      setRunbookActivity((prev) => [
+                        ...prev,
+                        { runbook, step, done, by: operator.trim(), at: new Date().toISOString() },
+                      ])
+                    }
+                  />
+                </Card>
+              </div>
+            )}
+
             <div className="mt-6 grid gap-5 lg:grid-cols-2">
               <Card title="Recent Logs (sample)" tone={tone}>
                 <div className="space-y-2.5">
@@ -842,6 +2230,252 @@ export default function Page() {
         </div>
       </div>
 
+      {/* History Modal */}
+      {historyOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+          <div
+            className="absolute inset-0 bg-black/70"
+            onClick={() => setHistoryOpen(false)}
+          />
+          <div className="relative w-full max-w-4xl rounded-[22px] border border-neutral-800 bg-neutral-950 shadow-[0_20px_80px_rgba(0,0,0,0.8)] overflow-hidden">
+            <div
+              className={cn("h-[3px] w-full bg-gradient-to-r", tone.gradientBar)}
+            />
+            <div className="p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-lg font-semibold text-neutral-100">
+                    Incident History
+                  </div>
+                  <div className="mt-1.5 text-xs text-neutral-400">
+                    Saved incidents, newest first. Opening one restores its
+                    telemetry, brief and runbook progress as saved.
+                  </div>
+                </div>
+                <button
+                  className="rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40"
+                  onClick={() => setHistoryOpen(false)}
+                >
+                  Close
+                </button>
+              </div>
+
+              {unreadable.length > 0 && (
+                <div className="mt-4 rounded-2xl border border-amber-500/30 bg-amber-500/10 p-3 text-[11px] text-amber-100">
+                  {unreadable.length} saved incident file(s) could not be read and are not listed:{" "}
+                  {unreadable.join(", ")}
+                </div>
+              )}
+
+              <div className="mt-4 max-h-[420px] overflow-y-auto">
+                <IncidentHistoryList
+                  incidents={history}
+                  currentId={savedIncident?.id}
+                  onOpen={openIncident}
+                  onDelete={removeIncident}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Source Modal */}
+      {sourceLine && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+          <div className="absolute inset-0 bg-black/70" onClick={() => setSourceLine(null)} />
+          <div className="relative w-full max-w-4xl rounded-[22px] border border-neutral-800 bg-neutral-950 shadow-[0_20px_80px_rgba(0,0,0,0.8)] overflow-hidden">
+            <div
+              className={cn("h-[3px] w-full bg-gradient-to-r", tone.gradientBar)}
+            />
+            <div className="p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-lg font-semibold text-neutral-100">
+                    {evidenceLocation(sourceLine)}
+                  </div>
+                  <div className="mt-1.5 text-xs text-neutral-400">
+                    The cited line in the ingested input, with {SOURCE_CONTEXT_LINES} lines
+                    either side.
+                  </div>
+                </div>
+                <button
+                  className="rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40"
+                  onClick={() => setSourceLine(null)}
+                >
+                  Close
+                </button>
+              </div>
+              <div className="mt-4">
+                <SourceExcerpt
+                  target={sourceLine}
+                  text={inputText?.get(sourceLine.source ?? "")}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Compare Modal */}
+      {compareOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+          <div
+            className="absolute inset-0 bg-black/70"
+            onClick={() => setCompareOpen(false)}
+          />
+          <div className="relative w-full max-w-5xl rounded-[22px] border border-neutral-800 bg-neutral-950 shadow-[0_20px_80px_rgba(0,0,0,0.8)] overflow-hidden">
+            <div
+              className={cn("h-[3px] w-full bg-gradient-to-r", tone.gradientBar)}
+            />
+            <div className="p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-lg font-semibold text-neutral-100">
+                    Compare Incidents
+                  </div>
+                  <div className="mt-1.5 text-xs text-neutral-400">
+                    Two saved incidents, two brief revisions of one incident, or
+                    either against the brief on screen.
+                  </div>
+                </div>
+                <button
+                  className="rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40"
+                  onClick={() => setCompareOpen(false)}
+                >
+                  Close
+                </button>
+              </div>
+
+              {history ? (
+                <div className="mt-4 flex flex-wrap items-center gap-2 text-[11px] text-neutral-300">
+                  {(["before", "after"] as const).map((side) => (
+                    <label key={side} className="flex items-center gap-2">
+                      <span className="font-semibold text-neutral-100">
+                        {side === "before" ? "Before:" : "After:"}
+                      </span>
+                      <select
+                        value={compareChoice[side]}
+                        onChange={(e) =>
+                          setCompareChoice((prev) => ({ ...prev, [side]: e.target.value }))
+                        }
+                        className="max-w-[320px] rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px]"
+                      >
+                        <option value="">—</option>
+                        {analysis && <option value="current">Brief on screen</option>}
+                        {history.flatMap((inc) =>
+                          Array.from({ length: Math.max(1, inc.revisions) }, (_, i) => (
+                            <option key={`${inc.id}@${i + 1}`} value={`${inc.id}@${i + 1}`}>
+                              {inc.title}
+                              {inc.revisions > 1 ? ` — revision ${i + 1} of ${inc.revisions}` : ""}
+                              {` (${inc.createdAt.slice(0, 16)})`}
+                            </option>
+                          ))
+                        )}
+                      </select>
+                    </label>
+                  ))}
+                  <button
+                    className={cn(
+                      "rounded-xl border border-sky-500/30 bg-sky-500/14 px-3 py-1.5 text-[11px] font-semibold text-sky-100 hover:bg-sky-500/18",
+                      (!compareChoice.before || !compareChoice.after) &&
+                        "opacity-60 cursor-not-allowed"
+                    )}
+                    disabled={!compareChoice.before || !compareChoice.after}
+                    onClick={runCompare}
+                  >
+                    Compare
+                  </button>
+                </div>
+              ) : (
+                <div className="mt-4 text-xs text-neutral-400">Loading…</div>
+              )}
+
+              <div className="mt-4 max-h-[60vh] overflow-y-auto">
+                {comparison && <ComparisonView comparison={comparison} />}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Postmortem Modal */}
+      {postmortemOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+          <div
+            className="absolute inset-0 bg-black/70"
+            onClick={() => setPostmortemOpen(false)}
+          />
+          <div className="relative w-full max-w-4xl rounded-[22px] border border-neutral-800 bg-neutral-950 shadow-[0_20px_80px_rgba(0,0,0,0.8)] overflow-hidden">
+            <div
+              className={cn("h-[3px] w-full bg-gradient-to-r", tone.gradientBar)}
+            />
+            <div className="p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-lg font-semibold text-neutral-100">
+                    Postmortem
+                  </div>
+                  <div className="mt-1.5 text-xs text-neutral-400">
+                    {postmortemSaved
+                      ? `Edited draft saved by ${postmortemSaved.savedBy} at ${postmortemSaved.savedAt}.`
+                      : "Generated from the saved incident. Edit, then save it to the incident."}
+                    {postmortemVersion && ` Template v${postmortemVersion}.`}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2.5">
+                  <button
+                    className="rounded-2xl border border-sky-500/30 bg-sky-500/14 px-4 py-2.5 text-xs font-semibold text-sky-100 hover:bg-sky-500/18 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+                    onClick={() => copyText(postmortemDraft ?? "")}
+                    disabled={postmortemDraft === null}
+                  >
+                    {copied ? "Copied" : "Copy Markdown"}
+                  </button>
+                  <button
+                    className="rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40"
+                    onClick={regeneratePostmortem}
+                    disabled={postmortemDraft === null}
+                  >
+                    Regenerate
+                  </button>
+                  <button
+                    className={cn(
+                      "rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40",
+                      (postmortemDraft === null || !operator.trim() || savingPostmortem) &&
+                        "opacity-60 cursor-not-allowed"
+                    )}
+                    onClick={savePostmortem}
+                    disabled={postmortemDraft === null || !operator.trim() || savingPostmortem}
+                    title={operator.trim() ? undefined : "Set \"Acting as\" to save"}
+                  >
+                    {savingPostmortem ? "Saving…" : "Save"}
+                  </button>
+                  <button
+                    className="rounded-2xl border border-neutral-800 bg-neutral-950/40 px-4 py-2.5 text-xs font-semibold text-neutral-200 hover:bg-neutral-950/60 focus:outline-none focus:ring-2 focus:ring-neutral-600/40"
+                    onClick={() => setPostmortemOpen(false)}
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-4">
+                {postmortemDraft === null ? (
+                  <div className="text-xs text-neutral-400">Loading…</div>
+                ) : (
+                  <textarea
+                    value={postmortemDraft}
+                    onChange={(e) => setPostmortemDraft(e.target.value)}
+                    className="w-full h-[420px] rounded-2xl border border-neutral-800 bg-neutral-950/70 p-4 text-[11px] text-neutral-200 font-mono leading-relaxed focus:outline-none"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Export Modal */}
       {exportOpen && analysis && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
@@ -931,6 +2565,1415 @@ function Signal({
   );
 }
 
+function StreamProgressBar({ progress }: { progress: StreamProgress }) {
+  const pct =
+    progress.total > 0 ? Math.min(100, (progress.bytes / progress.total) * 100) : 0;
+
+  return (
+    <div className="mt-3">
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-neutral-800">
+        <div
+          className="h-full rounded-full bg-sky-400/70 transition-[width]"
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+      <div className="mt-1.5 flex flex-wrap gap-x-4 text-[10px] text-neutral-400">
+        <span>Lines processed: {progress.lines.toLocaleString()}</span>
+        <span>
+          {formatBytes(progress.bytes)} of {formatBytes(progress.total)}
+        </span>
+        <span>
+          ETA:{" "}
+          {pct >= 100
+            ? "done"
+            : progress.etaSec === null
+            ? "—"
+            : `~${Math.ceil(progress.etaSec)}s`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function SeriesChart({
+  series,
+  anomalies,
+}: {
+  series: SignalSeries;
+  anomalies: AnomalyWindow[];
+}) {
+  const max = Math.max(1, ...series.buckets.map((b) => b.lines));
+  const inAnomaly = (start: string) =>
+    anomalies.some((w) => start >= w.start && start < w.end);
+  const first = series.buckets[0];
+  const last = series.buckets[series.buckets.length - 1];
+
+  return (
+    <div className="rounded-2xl border border-neutral-800 bg-neutral-950/65 p-4">
+      <div className="flex h-20 items-end gap-px">
+        {series.buckets.map((b) => (
+          <div
+            key={b.start}
+            className={cn(
+              "relative flex-1 min-w-0 rounded-t-sm",
+              inAnomaly(b.start) ? "bg-amber-400/45" : "bg-sky-500/25"
+            )}
+            style={{ height: `${(b.lines / max) * 100}%` }}
+            title={`${b.start} — lines ${b.lines}, errors ${b.errors}, warns ${b.warns}, timeouts ${b.timeouts}, 5xx ${b.http5xx}`}
+          >
+            <div
+              className="absolute bottom-0 left-0 right-0 rounded-t-sm bg-rose-500/70"
+              style={{ height: b.lines ? `${(b.errors / b.lines) * 100}%` : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex justify-between text-[10px] text-neutral-500">
+        <span>{first.start}</span>
+        <span>
+          lines (errors in red{anomalies.length ? ", anomaly windows in amber" : ""})
+        </span>
+        <span>{last.start}</span>
+      </div>
+    </div>
+  );
+}
+
+function RunbookPanel({
+  runbooks,
+  activity,
+  operator,
+  onToggle,
+}: {
+  runbooks: RunbookMatch[];
+  activity: RunbookActivity[];
+  operator: string;
+  onToggle: (runbook: string, step: string, done: boolean) => void;
+}) {
+  const state = stepState(activity);
+  const canTick = operator.trim().length > 0;
+
+  return (
+    <div className="space-y-4">
+      {!canTick && (
+        <div className="text-[11px] text-neutral-400">
+          Fill in &ldquo;Acting as&rdquo; under Current Context to tick steps.
+        </div>
+      )}
+
+      {runbooks.map((rb) => (
+        <div key={rb.id} className="rounded-2xl border border-neutral-800 bg-neutral-950/65 p-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="font-semibold text-neutral-100">{rb.title}</div>
+              {rb.description && (
+                <div className="mt-0.5 text-[11px] text-neutral-400">{rb.description}</div>
+              )}
+            </div>
+            <div className="shrink-0 text-right text-[10px] text-neutral-500">
+              {rb.owner && <div>owner: {rb.owner}</div>}
+              <div>{rb.matchedOn.join(", ")}</div>
+            </div>
+          </div>
+
+          <ol className="mt-3 space-y-1.5">
+            {rb.steps.map((s, i) => {
+              const a = state.get(`${rb.id}/${s.id}`);
+              return (
+                <li key={s.id} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={!!a?.done}
+                    disabled={!canTick}
+                    onChange={(e) => onToggle(rb.id, s.id, e.target.checked)}
+                  />
+                  <div className={cn(a?.done && "text-neutral-500 line-through")}>
+                    {i + 1}. {s.text}
+                    {s.owner && <span className="text-neutral-500"> ({s.owner})</span>}
+                  </div>
+                  {a?.done && (
+                    <span className="ml-auto shrink-0 text-[10px] text-emerald-200">
+                      {a.by} · {a.at}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {(!!rb.escalation?.length || !!rb.links?.length) && (
+            <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-neutral-400">
+              {rb.escalation?.map((e) => (
+                <span key={e.name}>
+                  escalate: {e.name}
+                  {e.role && ` (${e.role})`} — {e.contact}
+                </span>
+              ))}
+              {rb.links?.map((l) => (
+                <a
+                  key={l.url}
+                  href={l.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sky-300 hover:underline"
+                >
+                  {l.label}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {activity.length > 0 && (
+        <details className="text-[10px] text-neutral-400">
+          <summary className="cursor-pointer">Activity log ({activity.length})</summary>
+          <ul className="mt-2 space-y-0.5">
+            {activity.map((a, i) => (
+              <li key={i}>
+                {a.at} — {a.by} {a.done ? "completed" : "reopened"} {a.runbook}/{a.step}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+function LifecyclePanel({
+  lifecycle,
+  onset,
+  canEdit,
+  onUpdate,
+}: {
+  lifecycle: Lifecycle;
+  onset?: string;
+  canEdit: boolean;
+  onUpdate: (patch: LifecyclePatch) => Promise<void>;
+}) {
+  const [nextStatus, setNextStatus] = useState<IncidentStatus>(lifecycle.status);
+  const [statusAt, setStatusAt] = useState("");
+  const [statusNote, setStatusNote] = useState("");
+  // the transition whose time is being edited
+  const [retiming, setRetiming] = useState<{ index: number; at: string } | null>(null);
+  const [owner, setOwner] = useState(lifecycle.owner ?? "");
+  const [commander, setCommander] = useState(lifecycle.commander ?? "");
+  const [note, setNote] = useState("");
+  const durations = lifecycleDurations(lifecycle, onset);
+  const inputClass =
+    "rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px] disabled:opacity-60";
+  const buttonClass =
+    "rounded-xl border border-neutral-800 bg-neutral-950/40 px-3 py-1.5 text-[11px] font-semibold text-neutral-200 hover:bg-neutral-950/60 disabled:opacity-60 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-4">
+      {!canEdit && (
+        <div className="text-[11px] text-neutral-400">
+          Fill in &ldquo;Acting as&rdquo; under Current Context to change the status or add notes.
+        </div>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-4">
+        <Metric label="Status" value={formatStatus(lifecycle.status)} />
+        <Metric label="Time to detect" value={formatMinutes(durations.timeToDetectMinutes)} />
+        <Metric label="Time to mitigate" value={formatMinutes(durations.timeToMitigateMinutes)} />
+        <Metric label="Time to resolve" value={formatMinutes(durations.timeToResolveMinutes)} />
+      </div>
+      <div className="text-[11px] text-neutral-500">
+        Durations run from the onset of failures{onset ? ` (${onset})` : ""}, so status times are
+        in log time; backdate a status or edit a time to match when it happened.
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={nextStatus}
+          onChange={(e) => setNextStatus(e.target.value as IncidentStatus)}
+          disabled={!canEdit}
+          className={inputClass}
+        >
+          {INCIDENT_STATUSES.map((st) => (
+            <option key={st} value={st}>
+              {formatStatus(st)}
+            </option>
+          ))}
+        </select>
+        <input
+          value={statusAt}
+          onChange={(e) => setStatusAt(e.target.value)}
+          placeholder="at (ISO, log time; default end of logs)"
+          disabled={!canEdit}
+          className={cn(inputClass, "w-56 font-mono")}
+        />
+        <input
+          value={statusNote}
+          onChange={(e) => setStatusNote(e.target.value)}
+          placeholder="optional note"
+          disabled={!canEdit}
+          className={cn(inputClass, "w-56")}
+        />
+        <button
+          className={buttonClass}
+          disabled={!canEdit || nextStatus === lifecycle.status}
+          onClick={async () => {
+            await onUpdate({ status: nextStatus, statusAt: statusAt.trim() || undefined, statusNote });
+            setStatusAt("");
+            setStatusNote("");
+          }}
+        >
+          Set status
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-neutral-100">Owner:</span>
+        <input
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+          placeholder="unassigned"
+          disabled={!canEdit}
+          className={cn(inputClass, "w-40")}
+        />
+        <span className="font-semibold text-neutral-100">Incident commander:</span>
+        <input
+          value={commander}
+          onChange={(e) => setCommander(e.target.value)}
+          placeholder="unassigned"
+          disabled={!canEdit}
+          className={cn(inputClass, "w-40")}
+        />
+        <button
+          className={buttonClass}
+          disabled={
+            !canEdit ||
+            (owner.trim() === (lifecycle.owner ?? "") &&
+              commander.trim() === (lifecycle.commander ?? ""))
+          }
+          onClick={() => onUpdate({ owner, commander })}
+        >
+          Assign
+        </button>
+      </div>
+
+      <div className="flex items-start gap-2">
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="responder note"
+          rows={2}
+          disabled={!canEdit}
+          className={cn(inputClass, "flex-1")}
+        />
+        <button
+          className={buttonClass}
+          disabled={!canEdit || !note.trim()}
+          onClick={async () => {
+            await onUpdate({ note });
+            setNote("");
+          }}
+        >
+          Add note
+        </button>
+      </div>
+
+      <ul className="space-y-1 text-[11px] text-neutral-300">
+        {lifecycleTimeline(lifecycle).map((e, i) => (
+          <li key={i} className="flex flex-wrap items-center gap-2">
+            {retiming && retiming.index === e.transition ? (
+              <>
+                <input
+                  value={retiming.at}
+                  onChange={(ev) => setRetiming({ ...retiming, at: ev.target.value })}
+                  className={cn(inputClass, "w-56 font-mono")}
+                />
+                <button
+                  className={buttonClass}
+                  disabled={!retiming.at.trim() || retiming.at === e.at}
+                  onClick={async () => {
+                    await onUpdate({ transitionAt: retiming });
+                    setRetiming(null);
+                  }}
+                >
+                  Move
+                </button>
+                <button className={buttonClass} onClick={() => setRetiming(null)}>
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <span className="text-neutral-500">{e.at}</span>
+            )}
+            <span>
+              — {e.by}: {e.text}
+            </span>
+            {canEdit && e.transition !== undefined && !retiming && (
+              <button
+                className="text-[10px] text-sky-300 hover:underline"
+                onClick={() => setRetiming({ index: e.transition as number, at: e.at })}
+              >
+                edit time
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function SimilarIncidentList({
+  incidents,
+  onOpen,
+}: {
+  incidents: SimilarIncident[];
+  onOpen: (id: string) => void;
+}) {
+  return (
+    <ul className="space-y-3">
+      {incidents.map((inc) => (
+        <li key={inc.id} className="rounded-2xl border border-neutral-800 bg-neutral-950/65 p-4">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="font-semibold text-neutral-100">{inc.title}</div>
+              <div className="mt-0.5 text-[10px] text-neutral-500">
+                {Math.round(inc.score * 100)}% similar · {formatStatus(inc.status)} · saved{" "}
+                {inc.createdAt} by {inc.createdBy}
+              </div>
+              <div className="mt-1 text-[10px] text-neutral-400">
+                {[
+                  inc.sharedPatterns.length && `patterns: ${inc.sharedPatterns.join(", ")}`,
+                  inc.sharedServices.length && `services: ${inc.sharedServices.join(", ")}`,
+                  inc.sharedTemplates && `${inc.sharedTemplates} shared failure template(s)`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </div>
+            </div>
+            <button
+              className="shrink-0 rounded-xl border border-sky-500/30 bg-sky-500/14 px-3 py-1.5 text-[11px] font-semibold text-sky-100 hover:bg-sky-500/18"
+              onClick={() => onOpen(inc.id)}
+            >
+              Open
+            </button>
+          </div>
+
+          {inc.resolutionNotes.length > 0 ? (
+            <ul className="mt-2 space-y-0.5 text-[11px] text-neutral-300">
+              {inc.resolutionNotes.map((n, i) => (
+                <li key={i}>
+                  <span className="text-neutral-500">{n.at}</span> — {n.by}: {n.text}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="mt-2 text-[11px] text-neutral-500">No resolution notes recorded.</div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DiffBlock({ title, lines }: { title: string; lines: TextDiffLine[] }) {
+  return (
+    <div>
+      <div className="text-[11px] font-semibold text-neutral-200">{title}</div>
+      {lines.length ? (
+        <ul className="mt-1.5 space-y-0.5 font-mono text-[11px]">
+          {lines.map((l, i) => (
+            <li
+              key={i}
+              className={cn(
+                "whitespace-pre-wrap rounded px-2 py-0.5",
+                l.kind === "added" && "bg-emerald-500/10 text-emerald-200",
+                l.kind === "removed" && "bg-rose-500/10 text-rose-200 line-through",
+                l.kind === "same" && "text-neutral-400"
+              )}
+            >
+              {l.kind === "added" ? "+ " : l.kind === "removed" ? "- " : "  "}
+              {l.text}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="mt-1.5 text-[11px] text-neutral-500">No brief on either side.</div>
+      )}
+    </div>
+  );
+}
+
+function ComparisonView({ comparison }: { comparison: IncidentComparison }) {
+  const changedSignals = comparison.signals.filter((s) => s.changed);
+  const patternMoves = comparison.patterns.filter((p) => p.change !== "unchanged");
+  const level = (c: IncidentComparison["severity"]) =>
+    `${c.before ?? "—"} → ${c.after ?? "—"}${c.changed ? "" : " (unchanged)"}`;
+
+  return (
+    <div className="space-y-5 text-xs text-neutral-200">
+      <div className="text-[11px] text-neutral-400">
+        <span className="text-rose-200">{comparison.before}</span> →{" "}
+        <span className="text-emerald-200">{comparison.after}</span>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <Metric label="Severity" value={level(comparison.severity)} />
+        <Metric label="Confidence" value={level(comparison.confidence)} />
+        <Metric
+          label="Score"
+          value={
+            comparison.score
+              ? `${comparison.score.before} → ${comparison.score.after} (${
+                  comparison.score.delta >= 0 ? "+" : ""
+                }${comparison.score.delta})`
+              : "—"
+          }
+        />
+      </div>
+
+      <div>
+        <div className="text-[11px] font-semibold text-neutral-200">
+          Signals ({changedSignals.length} changed)
+        </div>
+        <table className="mt-1.5 w-full text-[11px]">
+          <thead className="text-neutral-500">
+            <tr>
+              <th className="text-left font-normal">signal</th>
+              <th className="text-right font-normal">before</th>
+              <th className="text-right font-normal">after</th>
+              <th className="text-right font-normal">change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.signals.map((s) => (
+              <tr key={s.key} className={cn(!s.changed && "text-neutral-500")}>
+                <td>{formatKey(s.key)}</td>
+                <td className="text-right">{s.before ?? "—"}</td>
+                <td className="text-right">{s.after ?? "—"}</td>
+                <td
+                  className={cn(
+                    "text-right",
+                    (s.delta ?? 0) > 0 && "text-rose-200",
+                    (s.delta ?? 0) < 0 && "text-emerald-200"
+                  )}
+                >
+                  {s.delta !== undefined && s.changed
+                    ? `${s.delta > 0 ? "+" : ""}${s.delta}${s.pct !== undefined ? ` (${s.pct > 0 ? "+" : ""}${s.pct}%)` : ""}`
+                    : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <div className="text-[11px] font-semibold text-neutral-200">Patterns</div>
+        {patternMoves.length ? (
+          <ul className="mt-1.5 space-y-0.5 text-[11px]">
+            {patternMoves.map((p) => (
+              <li key={p.pattern}>
+                <span
+                  className={cn(
+                    "mr-2 text-[10px] uppercase tracking-[0.14em]",
+                    p.change === "appeared" || p.change === "increased"
+                      ? "text-rose-200"
+                      : "text-emerald-200"
+                  )}
+                >
+                  {p.change}
+                </span>
+                {p.pattern} ({p.before} → {p.after})
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="mt-1.5 text-[11px] text-neutral-500">Same patterns and counts.</div>
+        )}
+      </div>
+
+      <DiffBlock title="Root cause" lines={comparison.rootCause} />
+      <DiffBlock title="Recommended actions" lines={comparison.actions} />
+    </div>
+  );
+}
+
+function IncidentHistoryList({
+  incidents,
+  currentId,
+  onOpen,
+  onDelete,
+}: {
+  incidents: IncidentSummary[] | null;
+  currentId?: string;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  if (!incidents) return <div className="text-xs text-neutral-400">Loading…</div>;
+  if (!incidents.length) {
+    return (
+      <Placeholder
+        title="No saved incidents yet."
+        body="Generate a brief, fill in Acting as and press Save."
+      />
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {incidents.map((inc) => (
+        <li
+          key={inc.id}
+          className={cn(
+            "rounded-2xl border bg-neutral-950/65 p-3.5",
+            inc.id === currentId ? "border-sky-500/40" : "border-neutral-800"
+          )}
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                {inc.severity && (
+                  <span
+                    className={cn(
+                      "rounded-full border px-2 py-0.5 text-[10px] font-semibold",
+                      severityTone(inc.severity).badge
+                    )}
+                  >
+                    {inc.severity}
+                  </span>
+                )}
+                <span className="truncate font-semibold text-neutral-100">{inc.title}</span>
+                <span className="shrink-0 text-[10px] text-neutral-400">
+                  {formatStatus(inc.status)}
+                </span>
+              </div>
+              {inc.executiveOneLiner && (
+                <div className="mt-1 text-[11px] text-neutral-300">{inc.executiveOneLiner}</div>
+              )}
+              <div className="mt-1 text-[10px] text-neutral-500">
+                {inc.service} · {inc.region} · saved by {inc.createdBy} at {inc.createdAt}
+                {inc.updatedAt !== inc.createdAt && ` · updated by ${inc.updatedBy}`}
+              </div>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <button
+                className="rounded-xl border border-sky-500/30 bg-sky-500/14 px-3 py-1.5 text-[11px] font-semibold text-sky-100 hover:bg-sky-500/18"
+                onClick={() => onOpen(inc.id)}
+              >
+                Open
+              </button>
+              <button
+                className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-1.5 text-[11px] font-semibold text-rose-100 hover:bg-rose-500/15"
+                onClick={() => onDelete(inc.id)}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SloCard({ slo }: { slo: SloStatus }) {
+  const worst = slo.burnRates
+    .filter((b) => !b.insufficientData)
+    .sort((a, b) => b.peakBurn - a.peakBurn)[0];
+  return (
+    <div
+      className={cn(
+        "rounded-2xl border p-4 text-[11px] text-neutral-300",
+        slo.status === "page"
+          ? "border-rose-500/40 bg-rose-500/10"
+          : slo.status === "ticket"
+            ? "border-amber-500/35 bg-amber-500/10"
+            : "border-emerald-500/25 bg-emerald-500/5"
+      )}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="font-semibold text-neutral-100">
+          SLO {slo.id}
+          {slo.service && <span className="font-normal text-neutral-500"> · {slo.service}</span>}
+        </div>
+        <span className="text-[10px] font-semibold uppercase tracking-[0.14em]">
+          {slo.status === "page" ? "Page" : slo.status === "ticket" ? "Ticket" : "OK"}
+        </span>
+      </div>
+      {slo.description && <div className="mt-1 text-neutral-500">{slo.description}</div>}
+      <div className="mt-3 grid grid-cols-3 gap-2">
+        <div>
+          <div className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">SLI</div>
+          <div className="font-semibold text-neutral-100">
+            {slo.sli}% <span className="text-neutral-500">/ {slo.target}%</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+            Budget left
+          </div>
+          <div className="font-semibold text-neutral-100">
+            {slo.budgetRemainingPct}%{" "}
+            <span className="text-neutral-500">of {slo.windowDays}d</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+            Peak burn
+          </div>
+          <div className="font-semibold text-neutral-100">{worst ? `${worst.peakBurn}x` : "—"}</div>
+        </div>
+      </div>
+      <ul className="mt-3 space-y-0.5 text-[10px] text-neutral-400">
+        {slo.burnRates.map((b) => (
+          <li key={b.alert} className="flex justify-between gap-3">
+            <span>
+              {b.alert} ({b.longWindowMinutes}m + {b.shortWindowMinutes}m ≥ {b.threshold}x)
+            </span>
+            <span className={b.firedAt ? "text-rose-200" : ""}>
+              {b.firedAt
+                ? `fired ${b.firedAt}`
+                : b.insufficientData
+                  ? `needs ${b.longWindowMinutes}m of logs`
+                  : `peak ${b.peakBurn}x`}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-2 text-[10px] text-neutral-500">
+        {slo.bad} bad of {slo.total} {slo.events === "lines" ? "lines" : "requests"}
+      </div>
+    </div>
+  );
+}
+
+const BLAST_DIMENSIONS = [
+  { key: "tenants", label: "Tenants" },
+  { key: "subaccounts", label: "Subaccounts" },
+  { key: "routes", label: "Routes" },
+  { key: "methods", label: "Methods" },
+  { key: "clients", label: "Clients" },
+] as const;
+
+function BlastRadiusPanel({ blast }: { blast: BlastRadius }) {
+  const dims = BLAST_DIMENSIONS.filter((d) => blast[d.key].total > 0);
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {dims.map(({ key, label }) => {
+        const d = blast[key];
+        return (
+          <div
+            key={key}
+            className={cn(
+              "rounded-2xl border px-4 py-3",
+              d.affected
+                ? "border-rose-500/22 bg-rose-500/5"
+                : "border-neutral-800 bg-neutral-950/65"
+            )}
+          >
+            <div className="text-[10px] font-semibold tracking-[0.16em] uppercase text-neutral-500">
+              {label} affected
+            </div>
+            <div className="mt-1 text-sm font-semibold text-neutral-100">
+              {d.affected}
+              {d.truncated ? "+" : ""} / {d.total}
+              {d.truncated ? "+" : ""}
+            </div>
+            {d.top.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-[10px] text-neutral-400">
+                {d.top.map((t) => (
+                  <li key={t.key} className="flex justify-between gap-3">
+                    <span className="font-mono truncate" title={t.key}>
+                      {t.key}
+                    </span>
+                    <span className="shrink-0">
+                      {t.failures}/{t.lines}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function LatencyPanel({ latency }: { latency: LatencySummary }) {
+  const max = Math.max(1, ...latency.series.map((p) => p.p95));
+  const regressionAt = latency.regression?.start;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-5 gap-2">
+        {(["p50", "p90", "p95", "p99", "max"] as const).map((k) => (
+          <Signal
+            key={k}
+            label={k}
+            value={`${latency[k]} ms`}
+            className="border-neutral-800 bg-neutral-950/65"
+          />
+        ))}
+      </div>
+      {latency.series.length > 1 && (
+        <div className="rounded-2xl border border-neutral-800 bg-neutral-950/65 p-4">
+          <div className="flex h-16 items-end gap-px">
+            {latency.series.map((p) => (
+              <div
+                key={p.start}
+                className={cn(
+                  "flex-1 min-w-0 rounded-t-sm",
+                  p.start === regressionAt ? "bg-amber-400/60" : "bg-violet-500/35"
+                )}
+                style={{ height: `${(p.p95 / max) * 100}%` }}
+                title={`${p.start} — p50 ${p.p50} ms, p95 ${p.p95} ms, max ${p.max} ms (${p.count} lines)`}
+              />
+            ))}
+          </div>
+          <div className="mt-2 text-[10px] text-neutral-500">
+            p95 per {latency.bucketMinutes} min
+            {latency.regression &&
+              ` · regression at ${latency.regression.start}: ${latency.regression.p95} ms vs ${latency.regression.normalP95} ms normal`}
+          </div>
+        </div>
+      )}
+      <div className="grid gap-3 md:grid-cols-2">
+        <LatencyTable title="Service" rows={latency.byService} />
+        <LatencyTable title="Route" rows={latency.byRoute} />
+      </div>
+    </div>
+  );
+}
+
+function LatencyTable({ title, rows }: { title: string; rows: LatencyRow[] }) {
+  if (!rows.length) return null;
+  return (
+    <div className="overflow-x-auto rounded-2xl border border-neutral-800 bg-neutral-950/65">
+      <table className="w-full text-[11px] text-neutral-300">
+        <thead className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+          <tr>
+            <th className="px-3 py-2 text-left">{title}</th>
+            <th className="px-3 py-2 text-right">n</th>
+            <th className="px-3 py-2 text-right">p50</th>
+            <th className="px-3 py-2 text-right">p95</th>
+            <th className="px-3 py-2 text-right">p99</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.key} className="border-t border-neutral-800">
+              <td className="px-3 py-2 font-mono max-w-[180px] truncate" title={r.key}>
+                {r.key}
+              </td>
+              <td className="px-3 py-2 text-right">{r.count}</td>
+              <td className="px-3 py-2 text-right">{r.p50}</td>
+              <td className="px-3 py-2 text-right">{r.p95}</td>
+              <td className="px-3 py-2 text-right">{r.p99}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function SourceTable({ sources }: { sources: SourceBreakdown[] }) {
+  return (
+    <div className="overflow-x-auto rounded-2xl border border-neutral-800 bg-neutral-950/65">
+      <table className="w-full text-[11px] text-neutral-300">
+        <thead className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+          <tr>
+            <th className="px-3 py-2 text-left">File</th>
+            <th className="px-3 py-2 text-left">Service</th>
+            <th className="px-3 py-2 text-right">Lines</th>
+            <th className="px-3 py-2 text-right">Errors</th>
+            <th className="px-3 py-2 text-right">5xx</th>
+            <th className="px-3 py-2 text-left">Window</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sources.map((src, i) => (
+            // a bundle may hold two files of the same name
+            <tr key={`${i}:${src.name}`} className="border-t border-neutral-800">
+              <td className="px-3 py-2 font-mono max-w-[160px] truncate" title={src.name}>
+                {src.name}
+              </td>
+              <td className="px-3 py-2 max-w-[120px] truncate">{src.serviceGuess}</td>
+              <td className="px-3 py-2 text-right">{getNum(src.derivedSignals.log_lines)}</td>
+              <td className="px-3 py-2 text-right">{getNum(src.derivedSignals.errors)}</td>
+              <td className="px-3 py-2 text-right">{getNum(src.derivedSignals.http_5xx)}</td>
+              <td className="px-3 py-2 text-[10px] text-neutral-500">
+                {src.timeWindow.start
+                  ? `${src.timeWindow.start} → ${src.timeWindow.end}`
+                  : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const BREAKDOWN_VIEWS = [
+  { key: "byService", label: "Service" },
+  { key: "byRegion", label: "Region" },
+  { key: "byServiceRegion", label: "Service × Region" },
+] as const;
+
+function BreakdownTable({
+  breakdown,
+  components,
+}: {
+  breakdown: Breakdown;
+  components: ComponentRole[];
+}) {
+  const [view, setView] =
+    useState<(typeof BREAKDOWN_VIEWS)[number]["key"]>("byService");
+  const roles = new Map(components.map((c) => [c.service, c.role]));
+  const rows: BreakdownRow[] = breakdown[view];
+
+  return (
+    <div className="rounded-2xl border border-neutral-800 bg-neutral-950/65">
+      <div className="flex gap-1 p-2">
+        {BREAKDOWN_VIEWS.map((v) => (
+          <button
+            key={v.key}
+            type="button"
+            onClick={() => setView(v.key)}
+            className={cn(
+              "rounded-lg px-2.5 py-1 text-[10px] font-semibold",
+              view === v.key
+                ? "bg-neutral-800 text-neutral-100"
+                : "text-neutral-500 hover:text-neutral-300"
+            )}
+          >
+            {v.label}
+          </button>
+        ))}
+      </div>
+      <div className="max-h-64 overflow-auto">
+        <table className="w-full text-[11px] text-neutral-300">
+          <thead className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+            <tr>
+              {view !== "byRegion" && <th className="px-3 py-2 text-left">Service</th>}
+              {view !== "byService" && <th className="px-3 py-2 text-left">Region</th>}
+              <th className="px-3 py-2 text-right">Lines</th>
+              <th className="px-3 py-2 text-right">Errors</th>
+              <th className="px-3 py-2 text-right">Timeouts</th>
+              <th className="px-3 py-2 text-right">5xx</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const role = row.service ? roles.get(row.service) : undefined;
+              return (
+                <tr
+                  key={`${row.service ?? ""}|${row.region ?? ""}`}
+                  className="border-t border-neutral-800"
+                >
+                  {view !== "byRegion" && (
+                    <td className="px-3 py-2 max-w-[180px] truncate" title={row.service}>
+                      {row.service}
+                      {role && view === "byService" && (
+                        <span
+                          className={cn(
+                            "ml-2 rounded-full border px-1.5 py-0.5 text-[9px] uppercase",
+                            role === "origin"
+                              ? "border-rose-500/40 text-rose-200"
+                              : "border-amber-500/40 text-amber-200"
+                          )}
+                        >
+                          {role}
+                        </span>
+                      )}
+                    </td>
+                  )}
+                  {view !== "byService" && (
+                    <td className="px-3 py-2 max-w-[140px] truncate">{row.region}</td>
+                  )}
+                  <td className="px-3 py-2 text-right">{row.lines}</td>
+                  <td className="px-3 py-2 text-right">{row.errors}</td>
+                  <td className="px-3 py-2 text-right">{row.timeouts}</td>
+                  <td className="px-3 py-2 text-right">{row.http5xx}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function HypothesisList({
+  hypotheses,
+  onShowLine,
+}: {
+  hypotheses: Hypothesis[];
+  onShowLine: (e: EvidenceLine) => void;
+}) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const evidenceRef = useRef<HTMLDivElement | null>(null);
+  const open = hypotheses.find((h) => h.id === openId);
+
+  function select(id: string) {
+    setOpenId(id === openId ? null : id);
+    // wait for the evidence block to render before jumping to it
+    requestAnimationFrame(() =>
+      evidenceRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" })
+    );
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+        Ranked hypotheses
+      </div>
+      <ol className="space-y-1.5">
+        {hypotheses.map((h, i) => (
+          <li key={h.id}>
+            <button
+              type="button"
+              onClick={() => select(h.id)}
+              className={cn(
+                "w-full rounded-xl border px-3 py-2 text-left text-[11px] hover:bg-neutral-900/70",
+                openId === h.id
+                  ? "border-sky-500/40 bg-sky-500/10"
+                  : "border-neutral-800 bg-neutral-950/50"
+              )}
+            >
+              <div className="flex justify-between gap-3">
+                <span className="text-neutral-100">
+                  {i + 1}. {h.title}
+                </span>
+                <span className="shrink-0 font-semibold text-neutral-300">{h.score}</span>
+              </div>
+              <div className="mt-0.5 text-[10px] text-neutral-500">
+                {h.rule ?? h.kind} · {h.count} hit(s)
+                {h.firstSeen && ` · first ${h.firstSeen}`}
+                {h.evidence.length > 0 && ` · ${h.evidence.length} evidence line(s)`}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ol>
+      {open && (
+        <div ref={evidenceRef} className="space-y-1.5 pt-1">
+          {open.evidence.length ? (
+            open.evidence.map((e, i) => (
+              <div
+                key={i}
+                className="rounded-lg border border-sky-500/25 bg-sky-500/10 px-2.5 py-1.5 font-mono text-[10px] leading-relaxed text-neutral-200 break-all"
+              >
+                {e.lineNo !== undefined ? (
+                  <button
+                    type="button"
+                    onClick={() => onShowLine(e)}
+                    className="mr-2 text-sky-300 underline decoration-dotted hover:text-sky-200"
+                    title="Show this line in the input"
+                  >
+                    {evidenceLocation(e)}
+                  </button>
+                ) : (
+                  evidenceLocation(e) && (
+                    <span className="mr-2 text-neutral-500">{evidenceLocation(e)}</span>
+                  )
+                )}
+                {e.line}
+              </div>
+            ))
+          ) : (
+            <div className="text-[10px] text-neutral-500">
+              No individual lines were recorded for this hypothesis.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// lines shown either side of a cited one
+const SOURCE_CONTEXT_LINES = 20;
+
+/** The input around a cited line, with that line highlighted and scrolled to. */
+function SourceExcerpt({ target, text }: { target: EvidenceLine; text?: string }) {
+  const lineNo = target.lineNo ?? 1;
+  const excerpt = useMemo(() => {
+    if (text === undefined) return [];
+    const lines = text.split("\n");
+    const from = Math.max(0, lineNo - 1 - SOURCE_CONTEXT_LINES);
+    return lines
+      .slice(from, lineNo + SOURCE_CONTEXT_LINES)
+      .map((line, i) => ({ n: from + i + 1, line }));
+  }, [text, lineNo]);
+
+  if (text === undefined) {
+    return (
+      <div className="text-xs text-neutral-400">
+        The input behind this line is not in the browser any more: it was streamed from disk,
+        opened from history, or replaced since it was ingested.
+      </div>
+    );
+  }
+  if (!excerpt.some((l) => l.n === lineNo)) {
+    return <div className="text-xs text-neutral-400">The input has no line {lineNo}.</div>;
+  }
+
+  return (
+    <div className="max-h-[420px] overflow-auto rounded-2xl border border-neutral-800 bg-neutral-950/65 py-2 font-mono text-[10px] leading-relaxed">
+      {excerpt.map((l) => (
+        <div
+          key={l.n}
+          ref={l.n === lineNo ? (el) => el?.scrollIntoView({ block: "center" }) : undefined}
+          className={cn(
+            "flex gap-3 px-3 whitespace-pre-wrap break-all",
+            l.n === lineNo ? "bg-sky-500/15 text-neutral-100" : "text-neutral-400"
+          )}
+        >
+          <span className="w-10 shrink-0 select-none text-right text-neutral-600">{l.n}</span>
+          <span>{l.line}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TemplateTable({
+  templates,
+  highlight,
+}: {
+  templates: LogTemplate[];
+  highlight?: string;
+}) {
+  return (
+    <div className="max-h-64 overflow-auto rounded-2xl border border-neutral-800 bg-neutral-950/65">
+      <table className="w-full text-[11px] text-neutral-300">
+        <thead className="text-[10px] uppercase tracking-[0.14em] text-neutral-500">
+          <tr>
+            <th className="px-3 py-2 text-left">Template</th>
+            <th className="px-3 py-2 text-right">Count</th>
+            <th className="px-3 py-2 text-right">Failing</th>
+            <th className="px-3 py-2 text-left">Seen</th>
+          </tr>
+        </thead>
+        <tbody>
+          {templates.map((t) => (
+            <tr
+              key={t.template}
+              className={cn(
+                "border-t border-neutral-800 align-top",
+                t.template === highlight && "bg-rose-500/10"
+              )}
+            >
+              <td className="px-3 py-2">
+                <div className="font-mono text-[10px] break-all" title={t.example}>
+                  {t.template}
+                </div>
+                <div className="mt-1 text-[10px] text-neutral-500">
+                  {t.patterns.length ? `rule: ${t.patterns.join(", ")}` : "no rule match"}
+                </div>
+              </td>
+              <td className="px-3 py-2 text-right">{t.count}</td>
+              <td className="px-3 py-2 text-right">{t.failures}</td>
+              <td className="px-3 py-2 text-[10px] text-neutral-500 whitespace-nowrap">
+                {t.firstSeen ? `${t.firstSeen} → ${t.lastSeen}` : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ChangeEventList({
+  events,
+  triggers,
+}: {
+  events: ChangeEvent[];
+  triggers: SuspectedTrigger[];
+}) {
+  const suspect = new Map(triggers.map((t) => [`${t.type}|${t.at}`, t]));
+  return (
+    <ul className="max-h-56 overflow-auto space-y-1.5 text-[11px] text-neutral-300">
+      {events.map((e, i) => {
+        const t = suspect.get(`${e.type}|${e.at}`);
+        return (
+          <li
+            key={`${e.at}-${i}`}
+            className={cn(
+              "rounded-xl border px-3 py-2",
+              t
+                ? "border-amber-500/40 bg-amber-500/10"
+                : "border-neutral-800 bg-neutral-950/65"
+            )}
+          >
+            <span className="font-semibold text-neutral-100">{e.type}</span>
+            {e.target && ` · ${e.target}`}
+            {e.actor && ` · by ${e.actor}`}
+            <span className="text-neutral-500">
+              {" "}
+              · {e.at} · {e.source}
+            </span>
+            {t && (
+              <span className="ml-2 text-amber-200">
+                suspected trigger,{" "}
+                {t.gapMinutes >= 0
+                  ? `${t.gapMinutes} min before onset`
+                  : `${-t.gapMinutes} min after onset`}
+              </span>
+            )}
+            {e.description && (
+              <div className="mt-1 truncate text-[10px] text-neutral-500" title={e.description}>
+                {e.description}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function TracePanel({
+  stats,
+  traces,
+  onShowLine,
+}: {
+  stats: Omit<TraceSummary, "traces">;
+  traces: Trace[];
+  onShowLine: (e: EvidenceLine) => void;
+}) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = traces.find((t) => t.id === openId);
+
+  return (
+    <div className="rounded-2xl border border-neutral-800 bg-neutral-950/65">
+      {stats.firstFailureByService.length > 0 && (
+        <div className="border-b border-neutral-800 px-3 py-2 text-[11px] text-neutral-400">
+          First failing hop:{" "}
+          {stats.firstFailureByService
+            .slice(0, 3)
+            .map((f) => `${f.service} ${f.pct}%`)
+            .join(" · ")}
+          {stats.p95DurationMs !== undefined &&
+            ` — p95 duration ${formatDuration(stats.p95DurationMs)}`}
+        </div>
+      )}
+      <div className="max-h-56 overflow-auto">
+        {traces.map((t) => (
+          <button
+            key={t.id}
+            type="button"
+            onClick={() => setOpenId(openId === t.id ? null : t.id)}
+            className={cn(
+              "flex w-full items-center gap-3 border-b border-neutral-800/70 px-3 py-2 text-left text-[11px] hover:bg-neutral-900/70",
+              openId === t.id && "bg-neutral-900/70"
+            )}
+          >
+            <span
+              className={cn(
+                "h-2 w-2 shrink-0 rounded-full",
+                t.failed ? "bg-rose-400" : "bg-emerald-400"
+              )}
+            />
+            <span className="w-28 shrink-0 truncate font-mono text-neutral-300" title={t.id}>
+              {t.id}
+            </span>
+            <span className="flex-1 truncate text-neutral-400">
+              {t.services.join(" → ")}
+            </span>
+            <span className="shrink-0 text-neutral-500">
+              {t.hops} hop{t.hops === 1 ? "" : "s"} · {formatDuration(t.durationMs)}
+            </span>
+          </button>
+        ))}
+      </div>
+      {open && (
+        <div className="space-y-1.5 border-t border-neutral-800 p-3">
+          {open.firstFailure && (
+            <div className="text-[11px] text-rose-200">
+              First failure at hop {open.firstFailure.hop} ({open.firstFailure.service})
+              {evidenceLocation(open.firstFailure) && `, ${evidenceLocation(open.firstFailure)}`}
+            </div>
+          )}
+          {open.lines.map((l, i) => (
+            <div
+              key={i}
+              className={cn(
+                "rounded-lg border px-2.5 py-1.5 font-mono text-[10px] leading-relaxed break-all",
+                l.failed
+                  ? "border-rose-500/30 bg-rose-500/10 text-rose-100"
+                  : "border-neutral-800 text-neutral-300"
+              )}
+            >
+              {l.lineNo !== undefined ? (
+                <button
+                  type="button"
+                  onClick={() => onShowLine(l)}
+                  className="mr-2 text-neutral-400 underline decoration-dotted hover:text-neutral-200"
+                  title="Show this line in the input"
+                >
+                  {evidenceLocation(l)}
+                </button>
+              ) : (
+                evidenceLocation(l) && (
+                  <span className="mr-2 text-neutral-500">{evidenceLocation(l)}</span>
+                )
+              )}
+              {l.line}
+            </div>
+          ))}
+          {open.lineCount > open.lines.length && (
+            <div className="text-[10px] text-neutral-500">
+              Showing the first {open.lines.length} of {open.lineCount} lines.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Comma (,)",
+  ";": "Semicolon (;)",
+  "\t": "Tab",
+  "|": "Pipe (|)",
+};
+
+function CsvMappingPanel({
+  options,
+  previewRows,
+  disabled,
+  onChange,
+  onApply,
+}: {
+  options: CsvOptions;
+  previewRows: string[][];
+  disabled: boolean;
+  onChange: (next: CsvOptions) => void;
+  onApply: () => void;
+}) {
+  const columns = columnNames(previewRows, options.hasHeader);
+  const sample = (options.hasHeader ? previewRows.slice(1) : previewRows).slice(0, 3);
+
+  function setRole(role: keyof CsvColumnMapping, value: string) {
+    const mapping = { ...options.mapping };
+    if (value === "") delete mapping[role];
+    else mapping[role] = Number(value);
+    onChange({ ...options, mapping });
+  }
+
+  return (
+    <div className="mt-5 rounded-2xl border border-sky-500/20 bg-neutral-950/60 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-[11px] font-semibold text-neutral-100">
+            CSV column mapping
+          </div>
+          <div className="mt-1 text-[10px] text-neutral-500">
+            Saved per header layout — the next export with the same columns
+            imports without this step.
+          </div>
+        </div>
+        <button
+          className={cn(
+            "rounded-2xl border px-4 py-2 text-xs font-semibold focus:outline-none focus:ring-2",
+            disabled
+              ? "border-neutral-700 bg-neutral-900/40 text-neutral-300 cursor-not-allowed"
+              : "border-sky-500/30 bg-sky-500/14 text-sky-100 hover:bg-sky-500/18 focus:ring-sky-500/40"
+          )}
+          onClick={onApply}
+          disabled={disabled}
+        >
+          Ingest CSV
+        </button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-[11px] text-neutral-300">
+        <label className="flex items-center gap-2">
+          Delimiter
+          <select
+            value={options.delimiter}
+            onChange={(e) => onChange({ ...options, delimiter: e.target.value })}
+            className="rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1"
+          >
+            {Object.entries(DELIMITER_LABELS).map(([d, label]) => (
+              <option key={label} value={d}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.hasHeader}
+            onChange={(e) => onChange({ ...options, hasHeader: e.target.checked })}
+          />
+          First row is a header
+        </label>
+      </div>
+
+      <div className="mt-3 grid gap-2 sm:grid-cols-3">
+        {CSV_ROLES.map((role) => (
+          <label key={role} className="text-[10px] text-neutral-500">
+            <span className="font-semibold uppercase tracking-[0.14em]">{role}</span>
+            <select
+              value={options.mapping[role] ?? ""}
+              onChange={(e) => setRole(role, e.target.value)}
+              className="mt-1 w-full rounded-lg border border-neutral-800 bg-neutral-950 px-2 py-1 text-[11px] text-neutral-200"
+            >
+              <option value="">—</option>
+              {columns.map((c, i) => (
+                <option key={`${c}-${i}`} value={i}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {sample.length > 0 && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-[10px] font-mono text-neutral-400">
+            <thead>
+              <tr>
+                {columns.map((c, i) => (
+                  <th key={`${c}-${i}`} className="px-2 py-1 text-left text-neutral-300">
+                    {c}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sample.map((row, r) => (
+                <tr key={r} className="border-t border-neutral-800">
+                  {columns.map((_c, i) => (
+                    <td key={i} className="px-2 py-1 max-w-[180px] truncate">
+                      {row[i] ?? ""}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function Placeholder({ title, body }: { title: string; body: string }) {
   return (
     <div className="text-neutral-200">
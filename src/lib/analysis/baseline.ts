@@ -0,0 +1,127 @@
+import type { BaselineSnapshot, LogTemplate } from "@/lib/ingest/types";
+
+export type Deviation = {
+  signal: string;
+  baseline: number;
+  incident: number;
+  // incident / baseline; null when the baseline had none at all
+  ratio: number | null;
+  note: string;
+};
+
+export type BaselineComparison = {
+  baselineWindow: BaselineSnapshot["timeWindow"];
+  // largest error / timeout / 5xx rate multiple, capped at MAX_RATE_MULTIPLE;
+  // a rate the baseline did not have at all counts as the cap
+  maxRateMultiple: number;
+  deviations: Deviation[];
+  newPatterns: string[];
+  newTemplates: string[];
+  withinBaseline: boolean;
+};
+
+// per-line rates compared as multiples of the baseline
+const RATE_SIGNALS: Array<[key: string, label: string]> = [
+  ["errors", "error rate"],
+  ["timeouts", "timeout rate"],
+  ["http_5xx", "HTTP 5xx rate"],
+];
+const LATENCY_KEY_RE = /(latency|response_time|duration).*_ms$/;
+const RATE_MULTIPLE = 1.5;
+// keeps the multiple finite (Infinity would serialise as null)
+const MAX_RATE_MULTIPLE = 100;
+const LATENCY_SHIFT = 1.2;
+
+function num(signals: Record<string, number | string>, key: string) {
+  const n = Number(signals[key]);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function pct(n: number) {
+  return `${Math.round(n * 1000) / 10}%`;
+}
+
+/** Error-rate multiples, latency shifts and patterns/templates absent from the baseline. */
+export function compareToBaseline(
+  signals: Record<string, number | string>,
+  patterns: Array<{ pattern: string; count: number }>,
+  templates: LogTemplate[],
+  baseline: BaselineSnapshot
+): BaselineComparison {
+  const deviations: Deviation[] = [];
+  const lines = Math.max(1, num(signals, "log_lines"));
+  const baseLines = Math.max(1, num(baseline.derivedSignals, "log_lines"));
+  let maxRateMultiple = 0;
+
+  for (const [key, label] of RATE_SIGNALS) {
+    const rate = num(signals, key) / lines;
+    const baseRate = num(baseline.derivedSignals, key) / baseLines;
+    if (!rate) continue;
+    const ratio = baseRate ? rate / baseRate : null;
+    maxRateMultiple = Math.max(maxRateMultiple, Math.min(ratio ?? Infinity, MAX_RATE_MULTIPLE));
+    if (ratio === null) {
+      deviations.push({
+        signal: key,
+        baseline: 0,
+        incident: rate,
+        ratio,
+        note: `${label} ${pct(rate)}, absent in baseline`,
+      });
+    } else if (ratio >= RATE_MULTIPLE) {
+      deviations.push({
+        signal: key,
+        baseline: baseRate,
+        incident: rate,
+        ratio,
+        note: `${label} at ${ratio.toFixed(1)}x baseline (${pct(rate)} vs ${pct(baseRate)})`,
+      });
+    }
+  }
+
+  for (const key of Object.keys(signals).filter((k) => LATENCY_KEY_RE.test(k))) {
+    const value = num(signals, key);
+    const base = num(baseline.derivedSignals, key);
+    if (!value || !base || value / base < LATENCY_SHIFT) continue;
+    deviations.push({
+      signal: key,
+      baseline: base,
+      incident: value,
+      ratio: value / base,
+      note: `${key.replaceAll("_", " ")} +${Math.round((value / base - 1) * 100)}% (${base} → ${value})`,
+    });
+  }
+
+  const basePatterns = new Set(baseline.topPatterns.map((p) => p.pattern));
+  const newPatterns = patterns
+    .filter((p) => p.count > 0 && !basePatterns.has(p.pattern))
+    .map((p) => p.pattern);
+
+  const baseTemplates = new Set(baseline.templates.map((t) => t.template));
+  const newTemplates = templates
+    .filter((t) => t.failures > 0 && !baseTemplates.has(t.template))
+    .slice(0, 3)
+    .map((t) => t.template);
+
+  return {
+    baselineWindow: baseline.timeWindow,
+    maxRateMultiple,
+    deviations,
+    newPatterns,
+    newTemplates,
+    withinBaseline:
+      maxRateMultiple < RATE_MULTIPLE && !newPatterns.length && !newTemplates.length,
+  };
+}
+
+/** One sentence for the summary. */
+export function describeBaseline(c: BaselineComparison) {
+  if (c.withinBaseline && !c.deviations.length) {
+    return "Compared with the baseline window, error, timeout and 5xx rates are within the normal range.";
+  }
+  const parts = c.deviations.map((d) => d.note);
+  if (c.newPatterns.length) parts.push(`new patterns: ${c.newPatterns.join(", ")}`);
+  if (c.newTemplates.length) {
+    parts.push(`${c.newTemplates.length} failing template(s) not seen in the baseline`);
+  }
+  return `Compared with the baseline window: ${parts.join("; ")}.`;
+}
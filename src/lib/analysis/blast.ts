@@ -0,0 +1,29 @@
+import type { BlastDimension, BlastRadius } from "@/lib/ingest/types";
+
+const DIMENSIONS: Array<[key: keyof BlastRadius, label: string]> = [
+  ["tenants", "tenants"],
+  ["subaccounts", "subaccounts"],
+  ["routes", "routes"],
+  ["clients", "clients"],
+];
+
+function count(d: BlastDimension, n: number) {
+  return `${n}${d.truncated ? "+" : ""}`;
+}
+
+/** "3 of 12 tenants" style parts for every dimension the logs carried. */
+export function blastParts(b: BlastRadius) {
+  return DIMENSIONS.filter(([key]) => b[key].total > 0).map(
+    ([key, label]) => `${count(b[key], b[key].affected)} of ${count(b[key], b[key].total)} ${label}`
+  );
+}
+
+/** One sentence stating the blast radius in numbers, or "" when unknown. */
+export function describeBlastRadius(b: BlastRadius) {
+  const parts = blastParts(b);
+  if (!parts.length) return "";
+  const route = b.routes.top[0];
+  return `Blast radius: ${parts.join(", ")} saw failures${
+    route ? `; most failing route ${route.key} (${route.failures} failures)` : ""
+  }.`;
+}
@@ -0,0 +1,93 @@
+import type { AnomalyWindow, BlastRadius, LogTemplate } from "@/lib/ingest/types";
+import type { SimilarIncident } from "@/lib/store/incidents";
+import type { BaselineComparison } from "./baseline";
+import type { SuspectedTrigger } from "./changes";
+import type { ComponentRole } from "./components";
+import type { Hypothesis } from "./hypotheses";
+import type { NarrativeGenerator } from "./narrative";
+import type { RunbookMatch } from "./runbooks";
+import type { Level, TraceEntry } from "./scoring";
+import type { SloStatus } from "./slo";
+
+const LEVELS = ["Low", "Medium", "High"];
+
+const BRIEF_STRINGS = ["summary", "rootCause", "businessImpact", "executiveOneLiner"] as const;
+
+const BRIEF_LISTS = [
+  "actions",
+  "btpNextSteps",
+  "signalHighlights",
+  "matchedRules",
+  "components",
+  "hypotheses",
+  "suspectedTriggers",
+  "similarIncidents",
+  "runbooks",
+  "slos",
+  "scoreTrace",
+] as const;
+
+/**
+ * What is wrong with a brief that arrives as JSON (a saved incident), or null.
+ * Checks the fields the postmortem, compare and history views read.
+ */
+export function briefError(value: unknown): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "analysis must be an /api/analyze brief";
+  }
+  const b = value as Record<string, unknown>;
+  if (!LEVELS.includes(b.severity as string)) return "analysis.severity must be Low, Medium or High";
+  if (!LEVELS.includes(b.confidence as string)) return "analysis.confidence must be Low, Medium or High";
+  if (typeof b.score !== "number") return "analysis.score must be a number";
+  for (const key of BRIEF_STRINGS) {
+    if (typeof b[key] !== "string") return `analysis.${key} must be a string`;
+  }
+  for (const key of BRIEF_LISTS) {
+    if (!Array.isArray(b[key])) return `analysis.${key} must be an array`;
+  }
+  if ((b.actions as unknown[]).some((a) => typeof a !== "string")) {
+    return "analysis.actions must be strings";
+  }
+  if (
+    (b.hypotheses as unknown[]).some(
+      (h) => !h || typeof h !== "object" || !Array.isArray((h as Hypothesis).evidence)
+    )
+  ) {
+    return "analysis.hypotheses must carry evidence lists";
+  }
+  return null;
+}
+
+/** The incident brief /api/analyze returns as `output`. */
+export type Brief = {
+  severity: Level;
+  confidence: Level;
+  summary: string;
+  rootCause: string;
+  actions: string[];
+  businessImpact: string;
+  btpNextSteps: string[];
+  signalHighlights: string[];
+  executiveOneLiner: string;
+  ruleVersion: string;
+  matchedRules: string[];
+  components: ComponentRole[];
+  dominantTemplate?: LogTemplate;
+  hypotheses: Hypothesis[];
+  baseline?: BaselineComparison;
+  focusWindow?: AnomalyWindow;
+  // when failures began: the first failing component or series bucket, whichever is earlier
+  onset?: string;
+  suspectedTriggers: SuspectedTrigger[];
+  // stored incidents with a similar fingerprint, best first
+  similarIncidents: SimilarIncident[];
+  blastRadius?: BlastRadius;
+  runbooks: RunbookMatch[];
+  runbookVersion: string;
+  slos: SloStatus[];
+  sloVersion: string;
+  generator: NarrativeGenerator;
+  score: number;
+  policyVersion: string;
+  scoreTrace: TraceEntry[];
+};
@@ -0,0 +1,36 @@
+import type { ChangeEvent } from "@/lib/ingest/types";
+
+export type SuspectedTrigger = ChangeEvent & {
+  // minutes from the change to the onset of failures; negative when it landed just after
+  gapMinutes: number;
+};
+
+// how far before the onset a change still counts as a suspect
+const LOOKBACK_MINUTES = 60;
+// onset is bucket-aligned, so a change a few minutes in can still be the trigger
+const GRACE_MINUTES = 5;
+const MAX_TRIGGERS = 3;
+
+/** Changes shortly before `onset`, closest first. */
+export function correlateChanges(events: ChangeEvent[], onset?: string): SuspectedTrigger[] {
+  const onsetMs = onset ? Date.parse(onset) : NaN;
+  if (!Number.isFinite(onsetMs)) return [];
+
+  return events
+    .map((e) => ({
+      ...e,
+      gapMinutes: Math.round((onsetMs - Date.parse(e.at)) / 6000) / 10,
+    }))
+    .filter((e) => e.gapMinutes <= LOOKBACK_MINUTES && e.gapMinutes >= -GRACE_MINUTES)
+    .sort((a, b) => Math.abs(a.gapMinutes) - Math.abs(b.gapMinutes))
+    .slice(0, MAX_TRIGGERS);
+}
+
+export function describeTrigger(t: SuspectedTrigger) {
+  const what = `${t.type}${t.target ? ` of ${t.target}` : ""}${t.actor ? ` by ${t.actor}` : ""}`;
+  const when =
+    t.gapMinutes >= 0
+      ? `${t.gapMinutes} min before failures started`
+      : `${-t.gapMinutes} min after failures started`;
+  return `${what} at ${t.at} (${when})`;
+}
@@ -0,0 +1,196 @@
+import type { IncidentRecord } from "@/lib/store/incidents";
+import type { Brief } from "./brief";
+import type { Level } from "./scoring";
+
+/** One side of a comparison: an incident's signals and patterns plus, if generated, its brief. */
+export type CompareSide = {
+  label: string;
+  signals: Record<string, number | string>;
+  patterns: Array<{ pattern: string; count: number }>;
+  brief?: Brief;
+};
+
+export type SignalDelta = {
+  key: string;
+  before?: number | string;
+  after?: number | string;
+  // numeric signals only
+  delta?: number;
+  pct?: number;
+  changed: boolean;
+};
+
+export type PatternChange = {
+  pattern: string;
+  before: number;
+  after: number;
+  change: "appeared" | "disappeared" | "increased" | "decreased" | "unchanged";
+};
+
+export type TextDiffLine = { kind: "same" | "added" | "removed"; text: string };
+
+export type LevelChange = { before?: Level; after?: Level; changed: boolean };
+
+export type IncidentComparison = {
+  before: string;
+  after: string;
+  signals: SignalDelta[];
+  patterns: PatternChange[];
+  severity: LevelChange;
+  confidence: LevelChange;
+  score?: { before: number; after: number; delta: number };
+  rootCause: TextDiffLine[];
+  actions: TextDiffLine[];
+};
+
+function asNumber(v: number | string | undefined) {
+  if (v === undefined || v === "") return undefined;
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function round(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+export function signalDeltas(
+  before: Record<string, number | string>,
+  after: Record<string, number | string>
+): SignalDelta[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.map((key) => {
+    const b = asNumber(before[key]);
+    const a = asNumber(after[key]);
+    const numeric = b !== undefined && a !== undefined;
+    return {
+      key,
+      before: before[key],
+      after: after[key],
+      ...(numeric && {
+        delta: round(a - b),
+        pct: b ? round(((a - b) / Math.abs(b)) * 100) : undefined,
+      }),
+      changed: String(before[key] ?? "") !== String(after[key] ?? ""),
+    };
+  });
+}
+
+/** Patterns that appeared or disappeared first, then the biggest count changes. */
+export function patternChanges(
+  before: CompareSide["patterns"],
+  after: CompareSide["patterns"]
+): PatternChange[] {
+  const b = new Map(before.map((p) => [p.pattern, p.count]));
+  const a = new Map(after.map((p) => [p.pattern, p.count]));
+  const rank: Record<PatternChange["change"], number> = {
+    appeared: 0,
+    disappeared: 1,
+    increased: 2,
+    decreased: 2,
+    unchanged: 3,
+  };
+
+  return [...new Set([...b.keys(), ...a.keys()])]
+    .map((pattern) => {
+      const was = b.get(pattern) ?? 0;
+      const now = a.get(pattern) ?? 0;
+      const change: PatternChange["change"] = !was
+        ? "appeared"
+        : !now
+          ? "disappeared"
+          : now > was
+            ? "increased"
+            : now < was
+              ? "decreased"
+              : "unchanged";
+      return { pattern, before: was, after: now, change };
+    })
+    .sort(
+      (x, y) =>
+        rank[x.change] - rank[y.change] ||
+        Math.abs(y.after - y.before) - Math.abs(x.after - x.before)
+    );
+}
+
+/** Line diff by longest common subsequence; fine for briefs, which run to a few dozen lines. */
+export function diffLines(before: string[], after: string[]): TextDiffLine[] {
+  const n = before.length;
+  const m = after.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      out.push({ kind: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ kind: "removed", text: before[i++] });
+    } else {
+      out.push({ kind: "added", text: after[j++] });
+    }
+  }
+  while (i < n) out.push({ kind: "removed", text: before[i++] });
+  while (j < m) out.push({ kind: "added", text: after[j++] });
+  return out;
+}
+
+/**
+ * A saved incident as one side of a comparison. Revisions count from 1 for
+ * the oldest brief; the default is the current one.
+ */
+export function recordSide(
+  record: IncidentRecord,
+  revision?: number
+): CompareSide | { error: string } {
+  const briefs = [
+    ...record.analysisHistory.map((r) => r.analysis),
+    ...(record.analysis ? [record.analysis] : []),
+  ];
+  const rev = revision ?? briefs.length;
+  if (briefs.length && (!Number.isInteger(rev) || rev < 1 || rev > briefs.length)) {
+    return { error: `${record.id} has brief revisions 1-${briefs.length}, not ${revision}` };
+  }
+  return {
+    label: `${record.title}${briefs.length > 1 ? ` (revision ${rev} of ${briefs.length})` : ""}`,
+    signals: record.ingest.derivedSignals,
+    patterns: record.ingest.topPatterns,
+    brief: briefs[rev - 1],
+  };
+}
+
+function sentences(text = "") {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function levelChange(before?: Level, after?: Level): LevelChange {
+  return { before, after, changed: before !== after };
+}
+
+export function compareIncidents(before: CompareSide, after: CompareSide): IncidentComparison {
+  const b = before.brief;
+  const a = after.brief;
+  return {
+    before: before.label,
+    after: after.label,
+    signals: signalDeltas(before.signals, after.signals),
+    patterns: patternChanges(before.patterns, after.patterns),
+    severity: levelChange(b?.severity, a?.severity),
+    confidence: levelChange(b?.confidence, a?.confidence),
+    score: b && a ? { before: b.score, after: a.score, delta: a.score - b.score } : undefined,
+    // root cause paragraphs are compared sentence by sentence
+    rootCause: diffLines(sentences(b?.rootCause), sentences(a?.rootCause)),
+    actions: diffLines(b?.actions ?? [], a?.actions ?? []),
+  };
+}
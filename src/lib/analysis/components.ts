@@ -0,0 +1,67 @@
+import type { BreakdownRow, EvidenceLine } from "@/lib/ingest/types";
+
+export type ComponentRole = {
+  service: string;
+  role: "origin" | "collateral";
+  failures: number;
+  lines: number;
+  sharePct: number;
+  firstFailureAt?: string;
+  firstFailure?: EvidenceLine;
+};
+
+// services below this share of all failures are never named the origin
+const MIN_ORIGIN_SHARE = 0.1;
+
+function failureRate(r: BreakdownRow) {
+  return r.lines ? r.failures / r.lines : 0;
+}
+
+function firstFailureMs(r: BreakdownRow) {
+  const ms = r.firstFailureAt ? Date.parse(r.firstFailureAt) : NaN;
+  return Number.isFinite(ms) ? ms : Infinity;
+}
+
+/**
+ * Splits failing services into the origin (the one that failed first with a
+ * meaningful share of failures, else the highest failure rate) and collateral.
+ */
+export function classifyComponents(byService: BreakdownRow[]): ComponentRole[] {
+  const failing = byService.filter(
+    (r) => r.failures > 0 && r.service && !r.service.startsWith("(")
+  );
+  const total = failing.reduce((sum, r) => sum + r.failures, 0);
+  if (!total) return [];
+
+  const candidates = failing.filter((r) => r.failures / total >= MIN_ORIGIN_SHARE);
+  const origin = [...(candidates.length ? candidates : failing)].sort(
+    (a, b) =>
+      firstFailureMs(a) - firstFailureMs(b) ||
+      failureRate(b) - failureRate(a) ||
+      b.failures - a.failures
+  )[0];
+
+  return failing
+    .map((r) => ({
+      service: r.service as string,
+      role: (r === origin ? "origin" : "collateral") as ComponentRole["role"],
+      failures: r.failures,
+      lines: r.lines,
+      sharePct: Number(((r.failures / total) * 100).toFixed(1)),
+      firstFailureAt: r.firstFailureAt,
+      firstFailure: r.firstFailure,
+    }))
+    .sort((a, b) => (a.role === "origin" ? -1 : b.role === "origin" ? 1 : b.failures - a.failures));
+}
+
+/** One sentence naming the origin and the collateral components. */
+export function describeComponents(components: ComponentRole[]) {
+  const origin = components.find((c) => c.role === "origin");
+  if (!origin) return "";
+  const when = origin.firstFailureAt ? `first failures at ${origin.firstFailureAt}, ` : "";
+  const collateral = components.filter((c) => c.role === "collateral").map((c) => c.service);
+  const rest = collateral.length
+    ? `; collateral impact on ${collateral.join(", ")}`
+    : "";
+  return `Origin component: ${origin.service} (${when}${origin.sharePct}% of failures)${rest}.`;
+}
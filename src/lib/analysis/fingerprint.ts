@@ -0,0 +1,107 @@
+import { UNKNOWN_KEY } from "@/lib/ingest/breakdown";
+import type { Breakdown, Incident, LogTemplate } from "@/lib/ingest/types";
+
+/**
+ * What an incident looks like, independent of its volume and time: which
+ * rule patterns fired, which failure templates were mined, which services
+ * failed and the per-line mix of its signals.
+ */
+export type Fingerprint = {
+  patterns: string[];
+  templates: string[];
+  services: string[];
+  // per-line shares of errors, warnings, timeouts and 5xx, plus a 0..1 latency level
+  shape: number[];
+};
+
+export type FingerprintSource = {
+  patterns: Array<{ pattern: string; count: number }>;
+  templates?: LogTemplate[];
+  breakdown?: Breakdown;
+  signals: Record<string, number | string>;
+};
+
+export type SimilarityScore = {
+  // 0..1, weighted over the parts both incidents have
+  score: number;
+  sharedPatterns: string[];
+  sharedServices: string[];
+  sharedTemplates: number;
+};
+
+const MAX_TEMPLATES = 10;
+
+const WEIGHTS = { patterns: 0.35, templates: 0.25, services: 0.2, shape: 0.2 };
+
+function num(v: number | string | undefined) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function fingerprintOf(src: FingerprintSource): Fingerprint {
+  const lines = num(src.signals.log_lines);
+  const share = (key: string) => (lines ? Math.min(1, num(src.signals[key]) / lines) : 0);
+  const p95 = num(src.signals.latency_p95_ms);
+
+  return {
+    patterns: src.patterns.map((p) => p.pattern).sort(),
+    templates: (src.templates ?? [])
+      .filter((t) => t.failures > 0)
+      .sort((a, b) => b.failures - a.failures)
+      .slice(0, MAX_TEMPLATES)
+      .map((t) => t.template),
+    services: (src.breakdown?.byService ?? [])
+      .filter((r) => r.failures > 0 && r.service && r.service !== UNKNOWN_KEY)
+      .map((r) => r.service as string)
+      .sort(),
+    shape: [
+      share("errors"),
+      share("warns"),
+      share("timeouts"),
+      share("http_5xx"),
+      // 1 ms → 0, 100 s → 1
+      p95 > 1 ? Math.min(1, Math.log10(p95) / 5) : 0,
+    ],
+  };
+}
+
+export function incidentFingerprint(incident: Incident) {
+  return fingerprintOf({
+    patterns: incident.topPatterns,
+    templates: incident.templates,
+    breakdown: incident.breakdown,
+    signals: incident.derivedSignals,
+  });
+}
+
+function jaccard(a: string[], b: string[]) {
+  const setB = new Set(b);
+  const shared = [...new Set(a)].filter((x) => setB.has(x));
+  const union = new Set([...a, ...b]).size;
+  return { shared, value: union ? shared.length / union : undefined };
+}
+
+export function similarity(a: Fingerprint, b: Fingerprint): SimilarityScore {
+  const patterns = jaccard(a.patterns, b.patterns);
+  const templates = jaccard(a.templates, b.templates);
+  const services = jaccard(a.services, b.services);
+  const diff = a.shape.reduce((sum, v, i) => sum + Math.abs(v - (b.shape[i] ?? 0)), 0);
+  const shape = a.shape.length ? 1 - diff / a.shape.length : undefined;
+
+  // parts neither incident has (say, no failing templates) are left out of the weighting
+  const parts = [
+    [WEIGHTS.patterns, patterns.value],
+    [WEIGHTS.templates, templates.value],
+    [WEIGHTS.services, services.value],
+    [WEIGHTS.shape, shape],
+  ].filter((p): p is [number, number] => p[1] !== undefined);
+  const weight = parts.reduce((sum, [w]) => sum + w, 0);
+  const score = weight ? parts.reduce((sum, [w, v]) => sum + w * v, 0) / weight : 0;
+
+  return {
+    score: Math.round(score * 100) / 100,
+    sharedPatterns: patterns.shared,
+    sharedServices: services.shared,
+    sharedTemplates: templates.shared.length,
+  };
+}
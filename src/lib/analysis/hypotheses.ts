@@ -0,0 +1,158 @@
+import type {
+  EvidenceLine,
+  LatencySummary,
+  LogTemplate,
+  PatternEvidence,
+} from "@/lib/ingest/types";
+import type { CompiledRule } from "@/lib/rules/match";
+import type { SuspectedTrigger } from "./changes";
+import type { ComponentRole } from "./components";
+
+export type Hypothesis = {
+  id: string;
+  kind: "rule" | "component" | "template" | "change" | "latency";
+  title: string;
+  // share of the combined raw score, 0-100
+  score: number;
+  rule?: string;
+  pattern?: string;
+  count: number;
+  firstSeen?: string;
+  evidence: EvidenceLine[];
+};
+
+// boost for patterns that dominate the worst anomaly window
+const FOCUS_BOOST = 1.5;
+// boost for the hypothesis whose first signal came earliest
+const EARLIEST_BOOST = 1.2;
+
+/** "app.log line 12", "line 12", or "" when the line is not known. */
+export function evidenceLocation(e: Pick<EvidenceLine, "source" | "lineNo">) {
+  if (e.lineNo === undefined) return e.source ?? "";
+  return `${e.source ? `${e.source} ` : ""}line ${e.lineNo}`;
+}
+
+function volume(count: number) {
+  return 1 + Math.log10(1 + count);
+}
+
+/**
+ * Ranks rule matches, the origin component, an unmatched dominant template,
+ * a latency regression and changes just before the onset as root-cause
+ * candidates, each citing the lines behind it.
+ */
+export function rankHypotheses(params: {
+  matchedRules: CompiledRule[];
+  patternWeights?: Record<string, number>;
+  patternEvidence: PatternEvidence[];
+  focusPatterns: Set<string>;
+  components: ComponentRole[];
+  dominantTemplate?: LogTemplate;
+  triggers?: SuspectedTrigger[];
+  latency?: { multiple: number; since?: string; summary: LatencySummary };
+}): Hypothesis[] {
+  const evidenceByPattern = new Map(params.patternEvidence.map((e) => [e.pattern, e]));
+  const raw: Array<Hypothesis & { raw: number }> = [];
+
+  for (const r of params.matchedRules) {
+    const ev = evidenceByPattern.get(r.pattern);
+    const weight = params.patternWeights?.[r.pattern] ?? r.severityWeight;
+    const count = ev?.count ?? 0;
+    raw.push({
+      id: `rule:${r.id}`,
+      kind: "rule",
+      title: r.rootCause || r.description || r.pattern,
+      score: 0,
+      raw:
+        Math.max(weight, 0.5) *
+        volume(count) *
+        (params.focusPatterns.has(r.pattern) ? FOCUS_BOOST : 1),
+      rule: r.id,
+      pattern: r.pattern,
+      count,
+      firstSeen: ev?.firstSeen,
+      evidence: ev?.lines ?? [],
+    });
+  }
+
+  const origin = params.components.find((c) => c.role === "origin");
+  if (origin && params.components.length > 1) {
+    raw.push({
+      id: `component:${origin.service}`,
+      kind: "component",
+      title: `failures originate in ${origin.service} (${origin.sharePct}% of failures)`,
+      score: 0,
+      raw: 3 * (origin.sharePct / 100) * volume(origin.failures),
+      count: origin.failures,
+      firstSeen: origin.firstFailureAt,
+      evidence: origin.firstFailure ? [origin.firstFailure] : [],
+    });
+  }
+
+  const t = params.dominantTemplate;
+  if (t) {
+    raw.push({
+      id: `template:${t.template}`,
+      kind: "template",
+      title: `new failure mode: ${t.template}`,
+      score: 0,
+      raw: 3 * volume(t.failures),
+      count: t.failures,
+      firstSeen: t.firstSeen,
+      evidence: [{ source: t.exampleSource, lineNo: t.exampleLineNo, line: t.example }],
+    });
+  }
+
+  const lat = params.latency;
+  if (lat) {
+    const service = lat.summary.byService[0];
+    const route = lat.summary.byRoute[0];
+    raw.push({
+      id: "latency:p95",
+      kind: "latency",
+      title: `latency regression (p95 ${lat.multiple}x normal)${
+        service ? ` in ${service.key}` : ""
+      }${route ? `, slowest route ${route.key}` : ""}`,
+      score: 0,
+      raw: (Math.min(lat.multiple, 5) * volume(lat.summary.count)) / 2,
+      count: lat.summary.count,
+      firstSeen: lat.since,
+      evidence: lat.summary.slowest ?? [],
+    });
+  }
+
+  // the closer a change landed to the onset, the more suspicious it is
+  // a change found in the logs and the same change uploaded share type and time
+  for (const [i, c] of (params.triggers ?? []).entries()) {
+    raw.push({
+      id: `change:${i}:${c.source}:${c.type}:${c.at}`,
+      kind: "change",
+      title: `${c.type}${c.target ? ` of ${c.target}` : ""} ${
+        c.gapMinutes >= 0 ? `${c.gapMinutes} min before` : `${-c.gapMinutes} min after`
+      } failures started`,
+      score: 0,
+      raw: 3 * Math.max(0.2, 1 - Math.abs(c.gapMinutes) / 60),
+      count: 1,
+      firstSeen: c.at,
+      evidence: [
+        {
+          source: c.file,
+          lineNo: c.lineNo,
+          line: c.description ?? `${c.source}: ${c.type}${c.target ? ` ${c.target}` : ""} at ${c.at}`,
+        },
+      ],
+    });
+  }
+
+  // whatever showed up first is more likely the cause than the symptom
+  const timed = raw.filter((h) => h.firstSeen);
+  if (timed.length > 1) {
+    const earliest = timed.reduce((a, b) => (a.firstSeen! <= b.firstSeen! ? a : b));
+    earliest.raw *= EARLIEST_BOOST;
+  }
+
+  const total = raw.reduce((sum, h) => sum + h.raw, 0) || 1;
+  return raw
+    .sort((a, b) => b.raw - a.raw)
+    .map(({ raw: r, ...h }) => ({ ...h, score: Math.round((r / total) * 100) }));
+}
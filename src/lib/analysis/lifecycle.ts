@@ -0,0 +1,163 @@
+export const INCIDENT_STATUSES = [
+  "detected",
+  "investigating",
+  "mitigated",
+  "resolved",
+  "postmortem_done",
+] as const;
+
+export type IncidentStatus = (typeof INCIDENT_STATUSES)[number];
+
+export type StatusTransition = {
+  status: IncidentStatus;
+  at: string;
+  by: string;
+  note?: string;
+  // the latest transition moved the incident back to an earlier status
+  reopened?: boolean;
+};
+
+export type ResponderNote = {
+  // log time, like transitions: the end of the logs unless a later entry moved it on
+  at: string;
+  by: string;
+  text: string;
+};
+
+export type Lifecycle = {
+  status: IncidentStatus;
+  // oldest first
+  transitions: StatusTransition[];
+  owner?: string;
+  commander?: string;
+  notes: ResponderNote[];
+};
+
+export type LifecycleDurations = {
+  // all measured from the onset of failures
+  timeToDetectMinutes?: number;
+  timeToMitigateMinutes?: number;
+  timeToResolveMinutes?: number;
+};
+
+// `transition` is the index of the status change the entry shows, if any
+export type TimelineEntry = { at: string; by: string; text: string; transition?: number };
+
+export function isIncidentStatus(value: unknown): value is IncidentStatus {
+  return INCIDENT_STATUSES.includes(value as IncidentStatus);
+}
+
+export function formatStatus(status: IncidentStatus) {
+  return status === "postmortem_done"
+    ? "Postmortem done"
+    : status[0].toUpperCase() + status.slice(1);
+}
+
+/** A new incident counts as detected when it is first saved. */
+export function initialLifecycle(at: string, by: string): Lifecycle {
+  return { status: "detected", transitions: [{ status: "detected", at, by }], notes: [] };
+}
+
+function rank(status: IncidentStatus) {
+  return INCIDENT_STATUSES.indexOf(status);
+}
+
+/**
+ * Records a move to `next.status`. Transitions stay in time order and the
+ * current status is the latest one's, so a backdated transition slots into
+ * the timeline without changing it. A backdated transition must fit between
+ * its neighbours; a latest one that goes back to an earlier status is kept
+ * as a reopen.
+ */
+export function transition(
+  lifecycle: Lifecycle,
+  next: StatusTransition
+): Lifecycle | { error: string } {
+  const transitions = [...lifecycle.transitions, next].sort((a, b) => a.at.localeCompare(b.at));
+  const i = transitions.lastIndexOf(next);
+  const prev = transitions[i - 1];
+  const following = transitions[i + 1];
+
+  if (following) {
+    if ((prev && rank(next.status) < rank(prev.status)) || rank(next.status) > rank(following.status)) {
+      return {
+        error: `A ${formatStatus(next.status)} transition at ${next.at} is out of order with ${
+          prev ? `${formatStatus(prev.status)} at ${prev.at} and ` : ""
+        }${formatStatus(following.status)} at ${following.at}`,
+      };
+    }
+  } else if (prev && rank(next.status) < rank(prev.status)) {
+    transitions[i] = { ...next, reopened: true };
+  }
+
+  return { ...lifecycle, transitions, status: transitions[transitions.length - 1].status };
+}
+
+/** Moves the transition at `index` to `at`, between its neighbours in the timeline. */
+export function retime(
+  lifecycle: Lifecycle,
+  index: number,
+  at: string
+): Lifecycle | { error: string } {
+  const moved = lifecycle.transitions[index];
+  if (!moved) return { error: `No transition ${index}` };
+  const prev = lifecycle.transitions[index - 1];
+  const following = lifecycle.transitions[index + 1];
+  if ((prev && at < prev.at) || (following && at > following.at)) {
+    return {
+      error: `${formatStatus(moved.status)} can only move between ${prev?.at ?? "the start"} and ${
+        following?.at ?? "now"
+      }`,
+    };
+  }
+  const transitions = lifecycle.transitions.map((t, i) => (i === index ? { ...t, at } : t));
+  return { ...lifecycle, transitions };
+}
+
+function minutesBetween(from: string | undefined, to: string | undefined) {
+  const ms = Date.parse(to ?? "") - Date.parse(from ?? "");
+  return Number.isFinite(ms) ? Math.max(0, Math.round(ms / 60_000)) : undefined;
+}
+
+/**
+ * TTD, TTM and TTR from the first transition into each state. A later state
+ * implies the earlier ones, so resolving without a "mitigated" step also
+ * stops the mitigation clock.
+ */
+export function lifecycleDurations(lifecycle: Lifecycle, onset?: string): LifecycleDurations {
+  const firstAt = (statuses: IncidentStatus[]) =>
+    lifecycle.transitions.find((t) => statuses.includes(t.status))?.at;
+  const start = onset ?? firstAt(["detected"]);
+
+  return {
+    timeToDetectMinutes: onset ? minutesBetween(onset, lifecycle.transitions[0]?.at) : undefined,
+    timeToMitigateMinutes: minutesBetween(
+      start,
+      firstAt(["mitigated", "resolved", "postmortem_done"])
+    ),
+    timeToResolveMinutes: minutesBetween(start, firstAt(["resolved", "postmortem_done"])),
+  };
+}
+
+/** "2 h 5 min" */
+export function formatMinutes(minutes?: number) {
+  if (minutes === undefined) return "—";
+  if (minutes < 60) return `${minutes} min`;
+  const h = Math.floor(minutes / 60);
+  return minutes % 60 ? `${h} h ${minutes % 60} min` : `${h} h`;
+}
+
+/** Status changes and notes in one time-ordered list. */
+export function lifecycleTimeline(lifecycle: Lifecycle): TimelineEntry[] {
+  return [
+    ...lifecycle.transitions.map((t, i) => ({
+      at: t.at,
+      by: t.by,
+      transition: i,
+      text: `${t.reopened ? "reopened, " : ""}status → ${formatStatus(t.status)}${
+        t.note ? `: ${t.note}` : ""
+      }`,
+    })),
+    ...lifecycle.notes.map((n) => ({ at: n.at, by: n.by, text: n.text })),
+  ].sort((a, b) => a.at.localeCompare(b.at));
+}
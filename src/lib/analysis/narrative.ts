@@ -0,0 +1,153 @@
+/*
+ * Optional narrative backend. When OPS_COPILOT_LLM_URL points at a local
+ * OpenAI-compatible (/v1/chat/completions) or Ollama (/api/chat) server, the
+ * summary, business impact and one-liner are written by the model from the
+ * extracted facts; otherwise, or when the call fails, the template texts are
+ * used unchanged.
+ *
+ *   OPS_COPILOT_LLM_URL         e.g. http://localhost:11434 or http://localhost:8080/v1
+ *   OPS_COPILOT_LLM_API         "ollama" | "openai" (guessed from the URL when unset)
+ *   OPS_COPILOT_LLM_MODEL       model name, default "llama3.1"
+ *   OPS_COPILOT_LLM_API_KEY     sent as a bearer token, if set
+ *   OPS_COPILOT_LLM_TIMEOUT_MS  default 20000
+ */
+
+export type Narrative = {
+  summary: string;
+  businessImpact: string;
+  executiveOneLiner: string;
+};
+
+export type NarrativeGenerator =
+  | { kind: "template"; fallbackReason?: string }
+  | { kind: "llm"; api: "openai" | "ollama"; model: string; durationMs: number };
+
+type LlmConfig = {
+  url: string;
+  api: "openai" | "ollama";
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+};
+
+const SYSTEM_PROMPT = [
+  "You write incident briefs for SAP BTP operations leadership.",
+  "Use only the facts given; do not invent services, numbers or causes.",
+  'Reply with a JSON object with the string keys "summary" (2-4 sentences),',
+  '"businessImpact" (1-2 sentences) and "executiveOneLiner" (one sentence).',
+].join(" ");
+
+export function llmConfig(env = process.env): LlmConfig | null {
+  const url = env.OPS_COPILOT_LLM_URL?.replace(/\/+$/, "");
+  if (!url) return null;
+  const api =
+    env.OPS_COPILOT_LLM_API === "openai" || env.OPS_COPILOT_LLM_API === "ollama"
+      ? env.OPS_COPILOT_LLM_API
+      : /:11434\b|\/api$/.test(url)
+        ? "ollama"
+        : "openai";
+  return {
+    url,
+    api,
+    model: env.OPS_COPILOT_LLM_MODEL || "llama3.1",
+    apiKey: env.OPS_COPILOT_LLM_API_KEY || undefined,
+    timeoutMs: Number(env.OPS_COPILOT_LLM_TIMEOUT_MS) || 20_000,
+  };
+}
+
+function endpoint(cfg: LlmConfig) {
+  if (cfg.api === "ollama") return `${cfg.url.replace(/\/api$/, "")}/api/chat`;
+  return cfg.url.endsWith("/v1") ? `${cfg.url}/chat/completions` : `${cfg.url}/v1/chat/completions`;
+}
+
+function requestBody(cfg: LlmConfig, facts: unknown) {
+  const messages = [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: `Incident facts:\n${JSON.stringify(facts, null, 2)}` },
+  ];
+  return cfg.api === "ollama"
+    ? { model: cfg.model, messages, stream: false, format: "json", options: { temperature: 0.2 } }
+    : {
+        model: cfg.model,
+        messages,
+        temperature: 0.2,
+        response_format: { type: "json_object" },
+      };
+}
+
+function replyText(api: LlmConfig["api"], json: unknown) {
+  const j = json as {
+    message?: { content?: string };
+    choices?: Array<{ message?: { content?: string } }>;
+  };
+  return api === "ollama" ? j.message?.content : j.choices?.[0]?.message?.content;
+}
+
+/** Pulls the narrative out of a model reply, tolerating code fences around the JSON. */
+export function parseNarrative(text: string | undefined): Narrative | null {
+  if (!text) return null;
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    const obj = JSON.parse(text.slice(start, end + 1)) as Partial<Record<keyof Narrative, unknown>>;
+    const pick = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+    const summary = pick(obj.summary);
+    const businessImpact = pick(obj.businessImpact);
+    const executiveOneLiner = pick(obj.executiveOneLiner);
+    return summary && businessImpact && executiveOneLiner
+      ? { summary, businessImpact, executiveOneLiner }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Asks the configured model for a narrative; any failure (not configured,
+ * unreachable, timeout, unusable reply) returns the template narrative.
+ */
+export async function generateNarrative(
+  facts: unknown,
+  fallback: Narrative,
+  cfg = llmConfig()
+): Promise<{ narrative: Narrative; generator: NarrativeGenerator }> {
+  if (!cfg) return { narrative: fallback, generator: { kind: "template" } };
+
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), cfg.timeoutMs);
+  try {
+    const res = await fetch(endpoint(cfg), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(cfg.apiKey && { Authorization: `Bearer ${cfg.apiKey}` }),
+      },
+      body: JSON.stringify(requestBody(cfg, facts)),
+      signal: controller.signal,
+    });
+    if (!res.ok) throw new Error(`narrative backend returned ${res.status}`);
+
+    const narrative = parseNarrative(replyText(cfg.api, await res.json()));
+    if (!narrative) throw new Error("narrative backend reply had no usable summary");
+    return {
+      narrative,
+      generator: { kind: "llm", api: cfg.api, model: cfg.model, durationMs: Date.now() - started },
+    };
+  } catch (e: unknown) {
+    const reason =
+      e instanceof Error && e.name === "AbortError"
+        ? `narrative backend timed out after ${cfg.timeoutMs} ms`
+        : e instanceof Error
+          ? e.message
+          : "narrative backend failed";
+    return { narrative: fallback, generator: { kind: "template", fallbackReason: reason } };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function describeGenerator(g: NarrativeGenerator) {
+  return g.kind === "llm" ? `${g.api}:${g.model}` : "template";
+}
@@ -0,0 +1,300 @@
+import { bucketFailures, failureOnset } from "@/lib/ingest/series";
+import type { PostmortemSection, PostmortemTemplate } from "@/lib/rules/types";
+import type { IncidentRecord } from "@/lib/store/incidents";
+import { describeBlastRadius } from "./blast";
+import { briefError } from "./brief";
+import { describeTrigger } from "./changes";
+import { describeComponents } from "./components";
+import { evidenceLocation } from "./hypotheses";
+import {
+  formatMinutes,
+  formatStatus,
+  lifecycleDurations,
+  lifecycleTimeline,
+  type LifecycleDurations,
+} from "./lifecycle";
+import { stepState } from "./runbooks";
+import { describeSlo } from "./slo";
+
+export type PostmortemDoc = {
+  incidentId: string;
+  title: string;
+  templateVersion: string;
+  generatedAt: string;
+  sections: Array<{ id: string; title: string; markdown: string }>;
+  markdown: string;
+};
+
+// detection slower than this counts against the response
+const SLOW_DETECT_MINUTES = 15;
+const SLOW_RESOLVE_MINUTES = 240;
+const MAX_EVIDENCE_LINES = 3;
+
+const TO_COMPLETE = "_To be completed by the team._";
+
+type Context = {
+  record: IncidentRecord;
+  onset?: string;
+  durations: LifecycleDurations;
+};
+
+function bullets(items: string[], empty = TO_COMPLETE) {
+  return items.length ? items.map((i) => `- ${i}`).join("\n") : empty;
+}
+
+function cell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function summary({ record }: Context) {
+  const { ingest, analysis, lifecycle } = record;
+  const window = ingest.timeWindow.start
+    ? ` between ${ingest.timeWindow.start} and ${ingest.timeWindow.end}`
+    : "";
+  return [
+    `${ingest.serviceGuess} in ${ingest.regionGuess}${window}. Severity ${
+      analysis?.severity ?? "not assessed"
+    }, status ${formatStatus(lifecycle.status)}.`,
+    "",
+    analysis?.summary ?? TO_COMPLETE,
+  ].join("\n");
+}
+
+function impact({ record }: Context) {
+  const { analysis } = record;
+  if (!analysis) return TO_COMPLETE;
+  return [
+    analysis.businessImpact,
+    ...(analysis.blastRadius ? ["", describeBlastRadius(analysis.blastRadius)] : []),
+    ...(analysis.slos.length ? ["", bullets(analysis.slos.map((s) => `SLO ${describeSlo(s)}`))] : []),
+  ].join("\n");
+}
+
+/** Failure onset, peak and end from the log series, anomaly windows, changes and status changes. */
+function timeline({ record }: Context) {
+  const { ingest, analysis, uploadedChanges, lifecycle } = record;
+  const entries: Array<{ at: string; text: string }> = [];
+
+  const failing = (ingest.series?.buckets ?? []).filter((b) => bucketFailures(b) > 0);
+  if (failing.length) {
+    const peak = failing.reduce((a, b) => (bucketFailures(b) > bucketFailures(a) ? b : a));
+    const per = `${ingest.series.bucketMinutes} min`;
+    entries.push({ at: failing[0].start, text: "first failures logged" });
+    entries.push({
+      at: peak.start,
+      text: `peak: ${peak.errors} errors, ${peak.timeouts} timeouts, ${peak.http5xx} 5xx in ${per}`,
+    });
+    entries.push({ at: failing[failing.length - 1].start, text: "last failures logged" });
+  }
+
+  for (const w of ingest.anomalies ?? []) {
+    const patterns = w.dominantPatterns.map((p) => p.pattern).join(", ");
+    entries.push({
+      at: w.start,
+      text: `${w.kind} began: failures at ${w.magnitude}x the normal level${patterns ? ` (${patterns})` : ""}`,
+    });
+    entries.push({ at: w.end, text: `${w.kind} ended` });
+  }
+
+  const triggers = new Set((analysis?.suspectedTriggers ?? []).map((t) => `${t.at}/${t.type}`));
+  for (const e of [...(ingest.changeEvents ?? []), ...(uploadedChanges ?? [])]) {
+    entries.push({
+      at: e.at,
+      text: `change: ${e.type}${e.target ? ` of ${e.target}` : ""}${e.actor ? ` by ${e.actor}` : ""}${
+        triggers.has(`${e.at}/${e.type}`) ? " — suspected trigger" : ""
+      }`,
+    });
+  }
+
+  for (const e of lifecycleTimeline(lifecycle)) {
+    entries.push({ at: e.at, text: `${e.text} (${e.by})` });
+  }
+
+  if (!entries.length) return TO_COMPLETE;
+  return [
+    "| Time (UTC) | Event |",
+    "| --- | --- |",
+    ...entries
+      .sort((a, b) => a.at.localeCompare(b.at))
+      .map((e) => `| ${e.at} | ${cell(e.text)} |`),
+  ].join("\n");
+}
+
+function durations({ record, onset, durations: d }: Context) {
+  const firstAt = (statuses: string[]) =>
+    record.lifecycle.transitions.find((t) => statuses.includes(t.status))?.at ?? "—";
+  return [
+    `- Failures began: ${onset ?? "unknown"}`,
+    ...(record.analysis?.focusWindow
+      ? [`- Worst window: ${record.analysis.focusWindow.start} → ${record.analysis.focusWindow.end}`]
+      : []),
+    `- Detected: ${record.lifecycle.transitions[0]?.at ?? "—"} (time to detect ${formatMinutes(d.timeToDetectMinutes)})`,
+    `- Mitigated: ${firstAt(["mitigated", "resolved", "postmortem_done"])} (time to mitigate ${formatMinutes(d.timeToMitigateMinutes)})`,
+    `- Resolved: ${firstAt(["resolved", "postmortem_done"])} (time to resolve ${formatMinutes(d.timeToResolveMinutes)})`,
+    `- Owner: ${record.lifecycle.owner ?? "unassigned"}; incident commander: ${
+      record.lifecycle.commander ?? "unassigned"
+    }`,
+  ].join("\n");
+}
+
+function rootCause({ record }: Context) {
+  const { analysis } = record;
+  if (!analysis) return TO_COMPLETE;
+  const components = describeComponents(analysis.components);
+  const evidence = analysis.hypotheses.slice(0, 3).map((h, i) =>
+    [
+      `${i + 1}. **${h.title}** — score ${h.score}, ${h.count} hit(s)${
+        h.firstSeen ? `, first seen ${h.firstSeen}` : ""
+      }`,
+      ...h.evidence
+        .slice(0, MAX_EVIDENCE_LINES)
+        .map((e) => {
+          const at = evidenceLocation(e);
+          return `   - ${at ? `${at}: ` : ""}\`${e.line.replace(/`/g, "'")}\``;
+        }),
+    ].join("\n")
+  );
+  return [
+    analysis.rootCause,
+    ...(components ? ["", components] : []),
+    ...(evidence.length ? ["", "Evidence:", "", ...evidence] : []),
+  ].join("\n");
+}
+
+function contributingFactors({ record }: Context) {
+  const { analysis, ingest } = record;
+  const regression = ingest.latency?.regression;
+  return bullets(
+    [
+      ...(analysis?.suspectedTriggers ?? []).map((t) => `Change shortly before the failures: ${describeTrigger(t)}.`),
+      ...(analysis?.components ?? [])
+        .filter((c) => c.role === "collateral")
+        .map((c) => `${c.service} failed as collateral (${c.failures} failing lines).`),
+      ...(analysis?.baseline?.deviations ?? []).map((d) => `${d.note}.`),
+      ...(regression
+        ? [`p95 latency regressed to ${regression.p95} ms, ${regression.multiple}x the normal ${regression.normalP95} ms.`]
+        : []),
+      ...(analysis?.dominantTemplate
+        ? [`An error template no catalog rule covers: \`${analysis.dominantTemplate.template}\`.`]
+        : []),
+    ],
+    "_None identified from the telemetry; add process and organisational factors._"
+  );
+}
+
+function wentWell({ record, durations: d }: Context) {
+  const { analysis, runbookActivity } = record;
+  const done = [...stepState(runbookActivity).values()].filter((a) => a.done);
+  const people = [...new Set(done.map((a) => a.by))];
+  return bullets([
+    ...(d.timeToDetectMinutes !== undefined && d.timeToDetectMinutes <= SLOW_DETECT_MINUTES
+      ? [`Detected ${formatMinutes(d.timeToDetectMinutes)} after failures began.`]
+      : []),
+    ...(analysis?.runbooks.length
+      ? [`Runbooks covered this failure mode: ${analysis.runbooks.map((rb) => rb.title).join(", ")}.`]
+      : []),
+    ...(done.length ? [`${done.length} runbook step(s) completed by ${people.join(", ")}.`] : []),
+    ...(analysis?.similarIncidents ?? [])
+      .filter((s) => s.resolutionNotes.length)
+      .map((s) => `Resolution notes from "${s.title}" were available to reuse.`),
+  ]);
+}
+
+function wentBadly({ record, durations: d }: Context) {
+  const { analysis } = record;
+  return bullets([
+    ...(d.timeToDetectMinutes !== undefined && d.timeToDetectMinutes > SLOW_DETECT_MINUTES
+      ? [`Detection took ${formatMinutes(d.timeToDetectMinutes)}.`]
+      : []),
+    ...(d.timeToResolveMinutes !== undefined && d.timeToResolveMinutes > SLOW_RESOLVE_MINUTES
+      ? [`Resolution took ${formatMinutes(d.timeToResolveMinutes)}.`]
+      : []),
+    ...(analysis?.slos ?? [])
+      .filter((s) => s.pageWorthy)
+      .map((s) => `Error budget of SLO ${s.id} burned at a page-worthy rate.`),
+    ...(analysis && !analysis.runbooks.length ? ["No runbook covered this failure mode."] : []),
+    ...(analysis?.dominantTemplate ? ["The dominant error template was not covered by a catalog rule."] : []),
+    ...(analysis?.similarIncidents ?? []).map(
+      (s) => `This had been seen before: "${s.title}" (${Math.round(s.score * 100)}% similar).`
+    ),
+  ]);
+}
+
+/** The brief's actions; runbook actions go to the runbook owner, the rest to the incident owner. */
+function actionItems({ record }: Context) {
+  const { analysis, lifecycle } = record;
+  if (!analysis?.actions.length) return TO_COMPLETE;
+  const ownerOf = (action: string) =>
+    analysis.runbooks.find((rb) => action.startsWith(`Follow runbook "${rb.title}"`))?.owner ??
+    lifecycle.owner ??
+    "unassigned";
+  return [
+    "| # | Action | Owner | Due |",
+    "| --- | --- | --- | --- |",
+    ...analysis.actions.map((a, i) => `| ${i + 1} | ${cell(a)} | ${cell(ownerOf(a))} | |`),
+  ].join("\n");
+}
+
+const RENDERERS: Record<PostmortemSection["source"], (ctx: Context, s: PostmortemSection) => string> = {
+  summary,
+  impact,
+  timeline,
+  durations,
+  root_cause: rootCause,
+  contributing_factors: contributingFactors,
+  went_well: wentWell,
+  went_badly: wentBadly,
+  action_items: actionItems,
+  text: (_ctx, s) => s.text ?? TO_COMPLETE,
+};
+
+/** One section's markdown; a record that does not fit the renderer leaves it to the team. */
+function render(ctx: Context, s: PostmortemSection) {
+  const renderer = RENDERERS[s.source];
+  if (!renderer) return TO_COMPLETE;
+  try {
+    return renderer(ctx, s);
+  } catch (e: unknown) {
+    const reason = e instanceof Error ? e.message : "unexpected record shape";
+    return `${TO_COMPLETE} _(Not generated from the saved incident: ${reason}.)_`;
+  }
+}
+
+/** Fills the template's sections from a saved incident. */
+export function buildPostmortem(template: PostmortemTemplate, record: IncidentRecord): PostmortemDoc {
+  // briefs saved before payloads were checked may be malformed; draft without them
+  const badBrief = record.analysis ? briefError(record.analysis) : null;
+  const rec = badBrief ? { ...record, analysis: undefined } : record;
+  // never later than the timeline's first failures; older briefs took the worst window
+  const onset = failureOnset(rec.ingest.series, rec.analysis?.onset);
+  const ctx: Context = { record: rec, onset, durations: lifecycleDurations(rec.lifecycle, onset) };
+  const generatedAt = new Date().toISOString();
+
+  const sections = template.sections.map((s) => ({
+    id: s.id,
+    title: s.title,
+    markdown: [...(s.prompt ? [`_${s.prompt}_`, ""] : []), render(ctx, s)].join("\n"),
+  }));
+
+  const markdown = [
+    `# Postmortem: ${record.title}`,
+    "",
+    `**Incident:** ${record.id} | **Severity:** ${record.analysis?.severity ?? "—"} | **Status:** ${formatStatus(
+      record.lifecycle.status
+    )}`,
+    ...(template.intro ? ["", `> ${template.intro}`] : []),
+    ...(badBrief ? ["", `> The saved brief could not be used (${badBrief}); re-run the analysis.`] : []),
+    ...sections.flatMap((s) => ["", `## ${s.title}`, "", s.markdown]),
+    "",
+    `_Generated ${generatedAt} from the saved incident, postmortem template v${template.version}._`,
+  ].join("\n");
+
+  return {
+    incidentId: record.id,
+    title: record.title,
+    templateVersion: template.version,
+    generatedAt,
+    sections,
+    markdown,
+  };
+}
@@ -0,0 +1,65 @@
+import type { Runbook } from "@/lib/rules/types";
+import type { Level } from "./scoring";
+
+export type RunbookMatch = Runbook & {
+  // what pulled the runbook in, e.g. ["pattern upstream_timeout", "severity High"]
+  matchedOn: string[];
+};
+
+/** Runbooks for the incident, pattern matches first, then services, then severity-only ones. */
+export function matchRunbooks(
+  runbooks: Runbook[],
+  incident: { patterns: string[]; services: string[]; severity: Level }
+): RunbookMatch[] {
+  const patterns = new Set(incident.patterns);
+  const services = new Set(incident.services);
+  const rank = (m: RunbookMatch) =>
+    m.matchedOn.some((k) => k.startsWith("pattern"))
+      ? 0
+      : m.matchedOn.some((k) => k.startsWith("service"))
+        ? 1
+        : 2;
+
+  return runbooks
+    .flatMap((rb) => {
+      const { patterns: ps = [], services: ss = [], severities = [] } = rb.match;
+      if (severities.length && !severities.includes(incident.severity)) return [];
+
+      const matchedOn = [
+        ...ps.filter((p) => patterns.has(p)).map((p) => `pattern ${p}`),
+        ...ss.filter((s) => services.has(s)).map((s) => `service ${s}`),
+      ];
+      if (!matchedOn.length && (ps.length || ss.length)) return [];
+      if (severities.length) matchedOn.push(`severity ${incident.severity}`);
+      return [{ ...rb, matchedOn }];
+    })
+    .sort((a, b) => rank(a) - rank(b));
+}
+
+/** One tick or untick of a runbook step during an incident. */
+export type RunbookActivity = {
+  runbook: string;
+  step: string;
+  done: boolean;
+  by: string;
+  at: string;
+};
+
+export function isRunbookActivity(value: unknown): value is RunbookActivity {
+  if (!value || typeof value !== "object") return false;
+  const a = value as Record<string, unknown>;
+  return (
+    typeof a.runbook === "string" &&
+    typeof a.step === "string" &&
+    typeof a.done === "boolean" &&
+    typeof a.by === "string" &&
+    typeof a.at === "string"
+  );
+}
+
+/** Latest state per "runbook/step" from the activity log. */
+export function stepState(activity: RunbookActivity[]) {
+  const state = new Map<string, RunbookActivity>();
+  for (const a of activity) state.set(`${a.runbook}/${a.step}`, a);
+  return state;
+}
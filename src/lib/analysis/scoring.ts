@@ -0,0 +1,103 @@
+import type { CompiledRule } from "@/lib/rules/match";
+import type { RuleCatalog, ScoringPolicy } from "@/lib/rules/types";
+
+export type Level = "Low" | "Medium" | "High";
+
+/** One line of the "why this severity" trace. */
+export type TraceEntry = {
+  kind: "condition" | "pattern" | "threshold" | "confidence";
+  id: string;
+  label: string;
+  value?: number | string;
+  points?: number;
+};
+
+export type ScoreResult = {
+  severity: Level;
+  confidence: Level;
+  score: number;
+  policyVersion: string;
+  trace: TraceEntry[];
+};
+
+function show(value: number) {
+  return Number.isFinite(value) ? value : "new";
+}
+
+/**
+ * Adds up condition tiers and matched pattern weights into a severity score,
+ * recording every contribution so the result can be explained.
+ */
+export function scoreIncident(params: {
+  policy: ScoringPolicy;
+  policyVersion: string;
+  thresholds: RuleCatalog["severityThresholds"];
+  facts: Record<string, number>;
+  matchedRules: CompiledRule[];
+  sampleLines: number;
+  // set when a per-service policy override was applied
+  service?: string;
+}): ScoreResult {
+  const { policy, thresholds, facts, matchedRules } = params;
+  const trace: TraceEntry[] = [];
+  let score = 0;
+
+  if (params.service) {
+    trace.push({
+      kind: "threshold",
+      id: "service_policy",
+      label: `scoring overrides for service ${params.service}`,
+    });
+  }
+
+  for (const c of policy.conditions) {
+    const value = facts[c.signal];
+    if (value === undefined || Number.isNaN(value)) continue;
+    const tier = c.tiers.find((t) => value >= t.gte);
+    if (!tier || !tier.points) continue;
+    score += tier.points;
+    trace.push({
+      kind: "condition",
+      id: c.id,
+      label: `${c.label ?? c.signal} ≥ ${tier.gte}`,
+      value: show(value),
+      points: tier.points,
+    });
+  }
+
+  for (const r of matchedRules) {
+    const points = policy.patternWeights?.[r.pattern] ?? r.severityWeight;
+    if (!points) continue;
+    score += points;
+    trace.push({ kind: "pattern", id: r.id, label: `pattern ${r.pattern}`, points });
+  }
+
+  const severity: Level =
+    score >= thresholds.high ? "High" : score >= thresholds.medium ? "Medium" : "Low";
+  trace.push({
+    kind: "threshold",
+    id: "severity",
+    label:
+      severity === "Low"
+        ? `score below medium threshold ${thresholds.medium}`
+        : `score ≥ ${severity.toLowerCase()} threshold ${
+            severity === "High" ? thresholds.high : thresholds.medium
+          }`,
+    value: score,
+  });
+
+  const failures = (facts.errors ?? 0) + (facts.timeouts ?? 0) + (facts.http_5xx ?? 0);
+  const { highMinSamples, highMinFailures, lowMaxSamples } = policy.confidence;
+  let confidence: Level = "Medium";
+  let why = `fewer than ${highMinSamples} sample lines or fewer than ${highMinFailures} failures`;
+  if (params.sampleLines <= lowMaxSamples) {
+    confidence = "Low";
+    why = `only ${params.sampleLines} sample line(s) (≤ ${lowMaxSamples})`;
+  } else if (params.sampleLines >= highMinSamples && failures >= highMinFailures) {
+    confidence = "High";
+    why = `≥ ${highMinSamples} sample lines and ≥ ${highMinFailures} failures`;
+  }
+  trace.push({ kind: "confidence", id: "confidence", label: why, value: confidence });
+
+  return { severity, confidence, score, policyVersion: params.policyVersion, trace };
+}
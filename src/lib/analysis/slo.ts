@@ -0,0 +1,159 @@
+import type { SloSeries } from "@/lib/ingest/types";
+import type { BurnRateAlert, SloConfig, SloDefinition } from "@/lib/rules/types";
+
+export type BurnRateResult = {
+  alert: string;
+  severity: BurnRateAlert["severity"];
+  longWindowMinutes: number;
+  shortWindowMinutes: number;
+  threshold: number;
+  // highest burn both windows sustained at the same time
+  peakBurn: number;
+  firedAt?: string;
+  // the upload is shorter than the long window, so the alert was not evaluated
+  insufficientData?: boolean;
+};
+
+export type SloStatus = {
+  id: string;
+  description?: string;
+  service?: string;
+  kind: SloDefinition["kind"];
+  target: number;
+  windowDays: number;
+  events?: SloSeries["events"];
+  total: number;
+  bad: number;
+  // percent good over the upload
+  sli?: number;
+  // share of the SLO window's budget left, if the rest of the window ran clean
+  budgetRemainingPct?: number;
+  burnRates: BurnRateResult[];
+  pageWorthy: boolean;
+  status: "ok" | "ticket" | "page" | "no_data";
+};
+
+// a window needs this many events before its burn rate is trusted
+const MIN_WINDOW_EVENTS = 10;
+
+function round(n: number, digits = 1) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function prefixSums(values: number[]) {
+  const sums = [0];
+  for (const v of values) sums.push(sums[sums.length - 1] + v);
+  return sums;
+}
+
+function evaluateAlert(
+  series: SloSeries,
+  budget: number,
+  alert: BurnRateAlert,
+  total: number[],
+  bad: number[]
+): BurnRateResult {
+  const longN = Math.max(1, Math.ceil(alert.longWindowMinutes / series.stepMinutes));
+  const shortN = Math.max(1, Math.ceil(alert.shortWindowMinutes / series.stepMinutes));
+  const burnAt = (end: number, n: number) => {
+    const events = total[end] - total[end - n];
+    if (events < MIN_WINDOW_EVENTS) return 0;
+    return (bad[end] - bad[end - n]) / events / budget;
+  };
+
+  // only windows that lie wholly inside the upload: a few minutes of
+  // failures must not read as a burning hour or day
+  const first = Math.max(longN, shortN);
+  let peakBurn = 0;
+  let firedAt: string | undefined;
+  for (let end = first; end < total.length; end++) {
+    const burn = Math.min(burnAt(end, longN), burnAt(end, shortN));
+    peakBurn = Math.max(peakBurn, burn);
+    if (!firedAt && burn >= alert.burnRate) {
+      firedAt = new Date(
+        Date.parse(series.start) + end * series.stepMinutes * 60_000
+      ).toISOString();
+    }
+  }
+
+  return {
+    alert: alert.id,
+    severity: alert.severity,
+    longWindowMinutes: alert.longWindowMinutes,
+    shortWindowMinutes: alert.shortWindowMinutes,
+    threshold: alert.burnRate,
+    peakBurn: round(peakBurn),
+    firedAt,
+    ...(first >= total.length && { insufficientData: true }),
+  };
+}
+
+/**
+ * SLI, remaining error budget and multi-window burn rates per SLO. Windows
+ * are evaluated ending at every step of the upload, so a burn that has
+ * since calmed down still counts.
+ */
+export function evaluateSlos(config: SloConfig, seriesList: SloSeries[]): SloStatus[] {
+  const byId = new Map(seriesList.map((s) => [s.id, s]));
+
+  return config.slos.map((slo) => {
+    const base = {
+      id: slo.id,
+      description: slo.description,
+      service: slo.service,
+      kind: slo.kind,
+      target: slo.target,
+      windowDays: slo.windowDays,
+    };
+    const series = byId.get(slo.id);
+    const totalEvents = series?.total.reduce((a, b) => a + b, 0) ?? 0;
+    if (!series || !totalEvents) {
+      return { ...base, total: 0, bad: 0, burnRates: [], pageWorthy: false, status: "no_data" };
+    }
+
+    const badEvents = series.bad.reduce((a, b) => a + b, 0);
+    const budget = 1 - slo.target / 100;
+    // the upload is usually far shorter than the SLO window; scale its traffic up
+    const spanMinutes = series.total.length * series.stepMinutes;
+    const windowEvents = totalEvents * Math.max(1, (slo.windowDays * 1440) / spanMinutes);
+    const consumed = badEvents / (budget * windowEvents);
+
+    const total = prefixSums(series.total);
+    const bad = prefixSums(series.bad);
+    const burnRates = config.burnRateAlerts.map((a) =>
+      evaluateAlert(series, budget, a, total, bad)
+    );
+    const fired = burnRates.filter((b) => b.firedAt);
+    const pageWorthy = fired.some((b) => b.severity === "page");
+
+    return {
+      ...base,
+      events: series.events,
+      total: totalEvents,
+      bad: badEvents,
+      sli: round(((totalEvents - badEvents) / totalEvents) * 100, 3),
+      budgetRemainingPct: round(Math.max(0, 1 - consumed) * 100),
+      burnRates,
+      pageWorthy,
+      status: pageWorthy ? "page" : fired.length ? "ticket" : "ok",
+    };
+  });
+}
+
+/** "availability: 97.2% good vs 99.5% target, 40% budget left, burn 14.8x (page_1h)". */
+export function describeSlo(s: SloStatus) {
+  if (s.status === "no_data") return `${s.id}: no matching events`;
+  const evaluated = s.burnRates.filter((b) => !b.insufficientData);
+  const worst = [...evaluated].sort((a, b) => b.peakBurn - a.peakBurn)[0];
+  const burn = worst
+    ? `, peak burn ${worst.peakBurn}x (${worst.alert})`
+    : s.burnRates.length
+      ? ", upload too short for any burn-rate window"
+      : "";
+  return `${s.id}: ${s.sli}% good vs ${s.target}% target, ${s.budgetRemainingPct}% of the ${
+    s.windowDays
+  }-day budget left${burn}${
+    s.status === "page" ? " — page-worthy" : s.status === "ticket" ? " — ticket" : ""
+  }`;
+}
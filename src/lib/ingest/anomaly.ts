@@ -0,0 +1,142 @@
+import type { AnomalyWindow, SeriesBucket, SignalSeries } from "./types";
+
+// too few buckets to tell normal from abnormal
+const MIN_BUCKETS = 5;
+// a spike needs at least this many failures in a bucket
+const MIN_SPIKE = 3;
+const SPIKE_SIGMAS = 3;
+// level shifts: minimum t-score and ratio between the two segments
+const SHIFT_SCORE = 4;
+const SHIFT_RATIO = 2;
+const MIN_SEGMENT = 3;
+const MAX_WINDOWS = 5;
+
+type Counts = { pattern: string; count: number };
+type WindowLookup = {
+  patternsIn: (startMs: number, endMs: number) => Counts[];
+  templatesIn: (startMs: number, endMs: number) => Array<{ template: string; count: number }>;
+};
+
+type Span = { kind: AnomalyWindow["kind"]; from: number; to: number; normal: number };
+
+function failures(b: SeriesBucket) {
+  return b.errors + b.timeouts + b.http5xx;
+}
+
+function median(values: number[]) {
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+}
+
+function variance(values: number[]) {
+  const m = mean(values);
+  return mean(values.map((v) => (v - m) ** 2));
+}
+
+/** Runs of buckets far above a robust (median / MAD) normal level. */
+function findSpikes(values: number[]): Span[] {
+  const normal = median(values);
+  const mad = median(values.map((v) => Math.abs(v - normal)));
+  // Poisson floor so a flat zero series does not flag every single error
+  const sigma = Math.max(1.4826 * mad, Math.sqrt(Math.max(normal, 1)));
+  const threshold = Math.max(normal + SPIKE_SIGMAS * sigma, MIN_SPIKE);
+
+  const spans: Span[] = [];
+  values.forEach((v, i) => {
+    if (v < threshold) return;
+    const prev = spans[spans.length - 1];
+    // a single quiet bucket does not split a spike
+    if (prev && i - prev.to <= 2) prev.to = i;
+    else spans.push({ kind: "spike", from: i, to: i, normal });
+  });
+  return spans;
+}
+
+/** The single strongest upward level shift, if any (one step of binary segmentation). */
+function findShift(values: number[]): Span | null {
+  const n = values.length;
+  let best: { k: number; score: number } | null = null;
+  for (let k = MIN_SEGMENT; k <= n - MIN_SEGMENT; k++) {
+    const left = values.slice(0, k);
+    const right = values.slice(k);
+    const pooled = Math.max(1, (variance(left) * k + variance(right) * (n - k)) / n);
+    const score = (mean(right) - mean(left)) / Math.sqrt(pooled / k + pooled / (n - k));
+    if (!best || score > best.score) best = { k, score };
+  }
+  if (!best || best.score < SHIFT_SCORE) return null;
+
+  const before = mean(values.slice(0, best.k));
+  const after = mean(values.slice(best.k));
+  if (after < SHIFT_RATIO * Math.max(before, 0.5)) return null;
+
+  // the shift lasts while failures stay above the midpoint of the two levels
+  const mid = (before + after) / 2;
+  let to = best.k;
+  for (let i = best.k; i < n; i++) if (values[i] > mid) to = i;
+  return { kind: "shift", from: best.k, to, normal: before };
+}
+
+/** Overlapping spans merge; a merged span is a shift if either part was. */
+function mergeSpans(spans: Span[]) {
+  const sorted = [...spans].sort((a, b) => a.from - b.from);
+  const out: Span[] = [];
+  for (const s of sorted) {
+    const prev = out[out.length - 1];
+    if (prev && s.from <= prev.to + 1) {
+      prev.to = Math.max(prev.to, s.to);
+      prev.normal = Math.min(prev.normal, s.normal);
+      if (s.kind === "shift") prev.kind = "shift";
+    } else {
+      out.push({ ...s });
+    }
+  }
+  return out;
+}
+
+/**
+ * Spike and change-point detection over the bucketed failure series.
+ * Windows are ranked by failures above normal, worst first.
+ */
+export function detectAnomalies(series: SignalSeries, lookup: WindowLookup): AnomalyWindow[] {
+  const { buckets, bucketMinutes } = series;
+  if (buckets.length < MIN_BUCKETS) return [];
+
+  const values = buckets.map(failures);
+  const shift = findShift(values);
+  const spans = mergeSpans([...findSpikes(values), ...(shift ? [shift] : [])]);
+
+  return spans
+    .map((span): AnomalyWindow => {
+      const inWindow = buckets.slice(span.from, span.to + 1);
+      const counts = values.slice(span.from, span.to + 1);
+      const startMs = Date.parse(inWindow[0].start);
+      const endMs = Date.parse(inWindow[inWindow.length - 1].start) + bucketMinutes * 60_000;
+      const level = mean(counts);
+
+      return {
+        kind: span.kind,
+        start: new Date(startMs).toISOString(),
+        end: new Date(endMs).toISOString(),
+        magnitude: Math.round((level / Math.max(span.normal, 1)) * 10) / 10,
+        normalLevel: Math.round(span.normal * 10) / 10,
+        peak: Math.max(...counts),
+        excess: Math.round(counts.reduce((sum, v) => sum + Math.max(0, v - span.normal), 0)),
+        signals: {
+          lines: inWindow.reduce((sum, b) => sum + b.lines, 0),
+          errors: inWindow.reduce((sum, b) => sum + b.errors, 0),
+          timeouts: inWindow.reduce((sum, b) => sum + b.timeouts, 0),
+          http5xx: inWindow.reduce((sum, b) => sum + b.http5xx, 0),
+        },
+        dominantPatterns: lookup.patternsIn(startMs, endMs).slice(0, 3),
+        dominantTemplates: lookup.templatesIn(startMs, endMs).slice(0, 3),
+      };
+    })
+    .filter((w) => w.excess > 0)
+    .sort((a, b) => b.excess - a.excess)
+    .slice(0, MAX_WINDOWS);
+}
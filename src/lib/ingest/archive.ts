@@ -0,0 +1,81 @@
+import { gunzipSync, strFromU8, unzipSync } from "fflate";
+
+export type UploadedFile = { name: string; text: string; bytes: number };
+
+const ARCHIVE_RE = /\.(zip|tar|tgz|tar\.gz|gz)$/i;
+
+export function isArchive(name: string) {
+  return ARCHIVE_RE.test(name);
+}
+
+function isLogEntry(name: string, data: Uint8Array) {
+  const base = name.split("/").pop() ?? "";
+  if (!base || base.startsWith(".") || name.startsWith("__MACOSX/")) return false;
+  // NUL bytes near the start mean a binary file
+  return !data.subarray(0, 1024).includes(0);
+}
+
+function readTarString(buf: Uint8Array, start: number, len: number) {
+  const raw = buf.subarray(start, start + len);
+  const end = raw.indexOf(0);
+  return strFromU8(end >= 0 ? raw.subarray(0, end) : raw);
+}
+
+/** Minimal ustar/GNU tar reader: regular files only, long names via "L" entries. */
+function untar(buf: Uint8Array) {
+  const files: Array<{ name: string; data: Uint8Array }> = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + 512 <= buf.length) {
+    const header = buf.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+
+    const size = parseInt(readTarString(buf, offset + 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readTarString(buf, offset + 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/` : "") + readTarString(buf, offset, 100);
+    const dataStart = offset + 512;
+    const data = buf.subarray(dataStart, dataStart + size);
+
+    longName = undefined;
+    if (type === "L") longName = readTarString(data, 0, data.length);
+    else if (type === "0") files.push({ name, data });
+
+    offset = dataStart + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+function isTar(buf: Uint8Array) {
+  return buf.length > 262 && strFromU8(buf.subarray(257, 262)) === "ustar";
+}
+
+/**
+ * Reads an uploaded file as one or more text logs. `.zip`, `.tar`, `.tar.gz`
+ * and `.tgz` bundles are unpacked in the browser; a plain `.gz` is a single
+ * compressed log.
+ */
+export async function readUpload(file: File): Promise<UploadedFile[]> {
+  if (!isArchive(file.name)) {
+    return [{ name: file.name, text: await file.text(), bytes: file.size }];
+  }
+
+  const buf = new Uint8Array(await file.arrayBuffer());
+  let entries: Array<{ name: string; data: Uint8Array }>;
+
+  if (/\.zip$/i.test(file.name)) {
+    entries = Object.entries(unzipSync(buf))
+      .filter(([name]) => !name.endsWith("/"))
+      .map(([name, data]) => ({ name, data }));
+  } else {
+    const unpacked = /\.(tgz|gz)$/i.test(file.name) ? gunzipSync(buf) : buf;
+    entries = isTar(unpacked)
+      ? untar(unpacked)
+      : [{ name: file.name.replace(/\.gz$/i, ""), data: unpacked }];
+  }
+
+  return entries
+    .filter((e) => isLogEntry(e.name, e.data))
+    .map((e) => ({ name: e.name, text: strFromU8(e.data), bytes: e.data.length }));
+}
@@ -0,0 +1,74 @@
+import { parseTimestamp } from "./time";
+import type { BaselineSnapshot, Incident, LogRecord } from "./types";
+
+export type TimeRange = { start?: string; end?: string };
+
+// a window that takes every line, or none, leaves nothing to compare
+export const EMPTY_SPLIT_ERROR = "Baseline window must leave lines on both sides of the split";
+
+/**
+ * Returns a predicate telling whether a record falls inside the window.
+ * Records without a timestamp use the last one seen, like bundle merging.
+ * Window bounds without an offset are read in `timeZone`.
+ */
+export function createWindowTest(window: TimeRange, timeZone?: string) {
+  const bound = (value: string | undefined, fallback: number) => {
+    if (!value) return fallback;
+    const iso = parseTimestamp(value, timeZone);
+    if (!iso) throw new Error(`Invalid baseline window time: ${value}`);
+    return Date.parse(iso);
+  };
+  const start = bound(window.start, Number.NEGATIVE_INFINITY);
+  const end = bound(window.end, Number.POSITIVE_INFINITY);
+  let lastAt = NaN;
+
+  return (rec: LogRecord) => {
+    const at = rec.timestamp ? Date.parse(rec.timestamp) : NaN;
+    if (Number.isFinite(at)) lastAt = at;
+    return Number.isFinite(lastAt) && lastAt >= start && lastAt <= end;
+  };
+}
+
+/** What is wrong with a baseline window from a request, or null. */
+export function windowError(window: unknown, timeZone?: string): string | null {
+  if (!window || typeof window !== "object" || Array.isArray(window)) {
+    return "baseline window must be { start?, end? }";
+  }
+  const bounds: number[] = [];
+  for (const key of ["start", "end"] as const) {
+    const value = (window as Record<string, unknown>)[key];
+    if (value === undefined || value === null || value === "") continue;
+    const iso = typeof value === "string" ? parseTimestamp(value, timeZone) : undefined;
+    if (!iso) return `Invalid baseline window ${key}: ${String(value)}`;
+    bounds.push(Date.parse(iso));
+  }
+  if (bounds.length === 2 && bounds[0] > bounds[1]) return "baseline window starts after it ends";
+  return null;
+}
+
+/** Splits records into those inside the baseline window and the rest. */
+export function splitByWindow(records: LogRecord[], window: TimeRange, timeZone?: string) {
+  const inWindow = createWindowTest(window, timeZone);
+  const inside: LogRecord[] = [];
+  const outside: LogRecord[] = [];
+  for (const rec of records) (inWindow(rec) ? inside : outside).push(rec);
+  return { inside, outside };
+}
+
+/** The part of an incident analyze needs to compare against. */
+export function toBaseline(
+  incident: Incident,
+  source: BaselineSnapshot["source"]
+): BaselineSnapshot {
+  return {
+    source,
+    timeWindow: incident.timeWindow,
+    derivedSignals: incident.derivedSignals,
+    topPatterns: incident.topPatterns,
+    templates: incident.templates.map(({ template, count, failures }) => ({
+      template,
+      count,
+      failures,
+    })),
+  };
+}
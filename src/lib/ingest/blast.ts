@@ -0,0 +1,125 @@
+import { routeOf } from "./latency";
+import type { BlastDimension, BlastRadius, LogRecord } from "./types";
+
+/*
+ * Field aliases for the SAP multitenancy and XSUAA context that application
+ * logging and approuter write (tenant_id, tenant_subdomain, x_zid, ...).
+ * Router lines carry none of them; there the tenant is the subdomain in front
+ * of a multitenant route, <subdomain>-<app host>.cfapps.<region>....
+ */
+const TENANT_KEYS = [
+  "tenant_subdomain",
+  "subdomain",
+  "tenant_id",
+  "tenant",
+  "tenantId",
+  "x_zid",
+  "zid",
+  "zone_id",
+  "identity_zone",
+];
+const CF_HOST_LABEL_RE = /^([a-z0-9][a-z0-9-]*)\.cfapps\./i;
+const SUBACCOUNT_KEYS = ["subaccount_id", "subaccount", "subaccountId", "cf.subaccount", "x_subaccount"];
+const CLIENT_KEYS = [
+  "client_id",
+  "clientId",
+  "user_id",
+  "user",
+  "user_name",
+  "remote_user",
+  "client_ip",
+  "remote_ip",
+  "x_forwarded_for",
+  "remote_addr",
+];
+
+// distinct values tracked per dimension; beyond this counts are lower bounds
+const MAX_DISTINCT = 10_000;
+const TOP_KEYS = 5;
+
+function firstOf(fields: Record<string, string>, keys: string[]) {
+  for (const k of keys) {
+    const v = fields[k]?.trim();
+    if (v && v !== "-") return v;
+  }
+  return undefined;
+}
+
+/** "acme-orders.cfapps.eu10.hana.ondemand.com" → "acme" (app "orders" or unknown). */
+function tenantFromHost(host: string | undefined, app?: string) {
+  const label = host?.match(CF_HOST_LABEL_RE)?.[1].toLowerCase();
+  if (!label) return undefined;
+  const suffix = app ? `-${app.toLowerCase()}` : "";
+  if (suffix && label.endsWith(suffix) && label.length > suffix.length) {
+    return label.slice(0, -suffix.length);
+  }
+  const dash = label.lastIndexOf("-");
+  return dash > 0 ? label.slice(0, dash) : undefined;
+}
+
+function createDimension() {
+  const seen = new Map<string, { lines: number; failures: number }>();
+  let truncated = false;
+
+  return {
+    add(key: string | undefined, failed: boolean) {
+      if (!key) return;
+      let row = seen.get(key);
+      if (!row) {
+        if (seen.size >= MAX_DISTINCT) {
+          truncated = true;
+          return;
+        }
+        row = { lines: 0, failures: 0 };
+        seen.set(key, row);
+      }
+      row.lines++;
+      if (failed) row.failures++;
+    },
+    finish(): BlastDimension {
+      const rows = [...seen.entries()].map(([key, r]) => ({ key, ...r }));
+      return {
+        total: rows.length,
+        affected: rows.filter((r) => r.failures > 0).length,
+        truncated,
+        top: rows
+          .filter((r) => r.failures > 0)
+          .sort((a, b) => b.failures - a.failures || b.lines - a.lines)
+          .slice(0, TOP_KEYS),
+      };
+    },
+  };
+}
+
+/** Distinct tenants, subaccounts, routes, methods and clients, overall and failing. */
+export function createBlastAccumulator() {
+  const tenants = createDimension();
+  const subaccounts = createDimension();
+  const routes = createDimension();
+  const methods = createDimension();
+  const clients = createDimension();
+
+  function add(rec: LogRecord, failed: boolean) {
+    const f = rec.fields;
+    tenants.add(firstOf(f, TENANT_KEYS) ?? tenantFromHost(f.host, rec.service), failed);
+    subaccounts.add(firstOf(f, SUBACCOUNT_KEYS), failed);
+    // x_forwarded_for lists proxies after the original client
+    clients.add(firstOf(f, CLIENT_KEYS)?.split(",")[0].trim(), failed);
+
+    const { method, route } = routeOf(rec);
+    routes.add(route && (method ? `${method} ${route}` : route), failed);
+    methods.add(method, failed);
+  }
+
+  function finish(): BlastRadius {
+    return {
+      tenants: tenants.finish(),
+      subaccounts: subaccounts.finish(),
+      routes: routes.finish(),
+      methods: methods.finish(),
+      clients: clients.finish(),
+    };
+  }
+
+  return { add, finish };
+}
@@ -0,0 +1,85 @@
+import type {
+  Breakdown,
+  BreakdownCounts,
+  BreakdownRow,
+  EvidenceLine,
+  LogRecord,
+} from "./types";
+
+export const UNKNOWN_KEY = "(unknown)";
+const OTHER_KEY = "(other)";
+// distinct services / regions / pairs tracked before folding into "(other)"
+const MAX_KEYS = 500;
+
+type LineFlags = { isError: boolean; isTimeout: boolean; is5xx: boolean; at?: number };
+
+function emptyRow(): BreakdownCounts & { firstFailureMs?: number; firstFailure?: EvidenceLine } {
+  return { lines: 0, errors: 0, timeouts: 0, http5xx: 0, failures: 0 };
+}
+
+function finishRows(
+  rows: Map<string, ReturnType<typeof emptyRow>>,
+  label: (key: string) => Pick<BreakdownRow, "service" | "region">
+): BreakdownRow[] {
+  return [...rows.entries()]
+    .map(([key, { firstFailureMs, ...counts }]) => ({
+      ...label(key),
+      ...counts,
+      firstFailureAt:
+        firstFailureMs !== undefined ? new Date(firstFailureMs).toISOString() : undefined,
+    }))
+    .sort((a, b) => b.failures - a.failures || b.lines - a.lines);
+}
+
+/** Lines, errors, timeouts and 5xx per service, per region and per pair. */
+export function createBreakdownAccumulator() {
+  const services = new Map<string, ReturnType<typeof emptyRow>>();
+  const regions = new Map<string, ReturnType<typeof emptyRow>>();
+  const pairs = new Map<string, ReturnType<typeof emptyRow>>();
+
+  function bump(
+    map: Map<string, ReturnType<typeof emptyRow>>,
+    key: string,
+    f: LineFlags,
+    rec?: LogRecord
+  ) {
+    if (!map.has(key) && map.size >= MAX_KEYS) key = OTHER_KEY;
+    let row = map.get(key);
+    if (!row) {
+      row = emptyRow();
+      map.set(key, row);
+    }
+    row.lines++;
+    if (f.isError) row.errors++;
+    if (f.isTimeout) row.timeouts++;
+    if (f.is5xx) row.http5xx++;
+    if (f.isError || f.isTimeout || f.is5xx) {
+      row.failures++;
+      if (f.at !== undefined && (row.firstFailureMs === undefined || f.at < row.firstFailureMs)) {
+        row.firstFailureMs = f.at;
+        if (rec) row.firstFailure = { source: rec.source, lineNo: rec.lineNo, line: rec.line };
+      }
+    }
+  }
+
+  function add(rec: LogRecord, flags: LineFlags) {
+    const service = rec.service || UNKNOWN_KEY;
+    const region = rec.region || UNKNOWN_KEY;
+    bump(services, service, flags, rec);
+    bump(regions, region, flags);
+    bump(pairs, `${service}\u0000${region}`, flags);
+  }
+
+  function finish(): Breakdown {
+    return {
+      byService: finishRows(services, (service) => ({ service })),
+      byRegion: finishRows(regions, (region) => ({ region })),
+      byServiceRegion: finishRows(pairs, (key) => {
+        const [service, region = OTHER_KEY] = key.split("\u0000");
+        return { service, region };
+      }),
+    };
+  }
+
+  return { add, finish };
+}
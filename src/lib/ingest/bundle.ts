@@ -0,0 +1,109 @@
+import type { RuleSet } from "../rules/match";
+import { cfSignals } from "./cf";
+import type { CsvOptions } from "./csv";
+import { parseLogs } from "./parse";
+import { buildIncident } from "./signals";
+import type { Incident, LogRecord, SourceBreakdown, SourceFormat } from "./types";
+
+export type SourceFile = {
+  name: string;
+  text: string;
+  format?: string;
+  csv?: Partial<CsvOptions>;
+};
+
+export type MergedLogs = {
+  records: LogRecord[];
+  format: SourceFormat;
+  hasCf: boolean;
+  sources: SourceBreakdown[];
+};
+
+/**
+ * Parses each file on its own, then merges every line into one time-ordered
+ * list. Lines without a timestamp inherit the previous line's time from the
+ * same file so multi-line stack traces stay next to their header; lines
+ * before the file's first timestamp take that one instead.
+ */
+export function mergeBundle(
+  files: SourceFile[],
+  ruleSet: RuleSet,
+  timeZone?: string
+): MergedLogs {
+  const merged: Array<{ rec: LogRecord; at: number; seq: number }> = [];
+  const sources: SourceBreakdown[] = [];
+  const formats = new Set<SourceFormat>();
+  let seq = 0;
+
+  for (const file of files) {
+    const raw = String(file.text ?? "");
+    if (!raw.trim()) continue;
+
+    const parsed = parseLogs(raw, { format: file.format, csv: file.csv, timeZone });
+    if (!parsed.records.length) continue;
+    formats.add(parsed.format);
+
+    const perFile = buildIncident(
+      parsed.records,
+      parsed.format,
+      ruleSet,
+      parsed.extraSignals
+    );
+    sources.push({
+      name: file.name,
+      sourceFormat: perFile.sourceFormat,
+      serviceGuess: perFile.serviceGuess,
+      regionGuess: perFile.regionGuess,
+      timeWindow: perFile.timeWindow,
+      topPatterns: perFile.topPatterns,
+      derivedSignals: perFile.derivedSignals,
+    });
+
+    // files without any timestamps go last
+    let lastAt = Number.POSITIVE_INFINITY;
+    for (const rec of parsed.records) {
+      const at = rec.timestamp ? Date.parse(rec.timestamp) : NaN;
+      if (Number.isFinite(at)) {
+        lastAt = at;
+        break;
+      }
+    }
+    for (const rec of parsed.records) {
+      const at = rec.timestamp ? Date.parse(rec.timestamp) : NaN;
+      if (Number.isFinite(at)) lastAt = at;
+      merged.push({
+        rec: { ...rec, source: file.name },
+        at: lastAt,
+        seq: seq++,
+      });
+    }
+  }
+
+  merged.sort((a, b) => a.at - b.at || a.seq - b.seq);
+  const records = merged.map((m) => m.rec);
+
+  const format: SourceFormat =
+    formats.size === 1 ? [...formats][0] : "mixed";
+
+  return { records, format, hasCf: formats.has("cf"), sources };
+}
+
+/** Builds the incident for merged logs, or for a subset of their records. */
+export function incidentFromLogs(
+  logs: MergedLogs,
+  ruleSet: RuleSet,
+  records: LogRecord[] = logs.records
+): Incident {
+  const extraSignals = logs.hasCf ? cfSignals(records) : {};
+  const incident = buildIncident(records, logs.format, ruleSet, extraSignals);
+  return logs.sources.length ? { ...incident, sources: logs.sources } : incident;
+}
+
+/** One merged, time-ordered incident with per-file breakdowns. */
+export function buildBundleIncident(
+  files: SourceFile[],
+  ruleSet: RuleSet,
+  timeZone?: string
+): Incident {
+  return incidentFromLogs(mergeBundle(files, ruleSet, timeZone), ruleSet);
+}
@@ -0,0 +1,194 @@
+import { parseJsonLine } from "./json";
+import { normalizeLevel } from "./normalize";
+import { createReservoir, increment, percentile } from "./stats";
+import { parseTextLine } from "./text";
+import { parseTimestamp } from "./time";
+import type { LogRecord } from "./types";
+
+/*
+ * `cf logs <app> --recent` output:
+ *   2026-01-06T13:01:02.11+0000 [APP/PROC/WEB/0] OUT message
+ *   2026-01-06T13:01:02.11+0000 [RTR/1] OUT host - [..] "GET /x HTTP/1.1" 502 ... response_time:0.01 x_cf_routererror:"endpoint_failure"
+ */
+const CF_LINE_RE = /^(\S+)\s+\[([A-Z]+(?:\/[^\]\s]+)*)\]\s+(OUT|ERR)\s?(.*)$/;
+const CF_HEADER_RE = /^Retrieving logs for app (\S+)/i;
+const RTR_REQUEST_RE = /^(\S+)\s+-\s+\[[^\]]*\]\s+"(\S+)\s+(\S+)[^"]*"\s+(\d{3})\b/;
+// key:value pairs start after whitespace; quoted positional values (request,
+// referer, user agent) are matched whole so a "https://..." is not a key
+const RTR_FIELD_RE = /(?<=^|\s)([a-z][a-z0-9_]*):("[^"]*"|\S+)|"[^"]*"/g;
+const REGION_FROM_HOST_RE = /\.cfapps\.([a-z]{2}\d{2,3}(?:-\d{3})?)\./;
+const CRASH_RE = /crash|exited with status|exit status [1-9]|out of memory/i;
+
+function parseRouterFields(message: string) {
+  const fields: Record<string, string> = {};
+  const req = message.match(RTR_REQUEST_RE);
+  if (req) {
+    fields.host = req[1];
+    fields.method = req[2];
+    fields.path = req[3];
+    fields.status = req[4];
+  }
+  let m: RegExpExecArray | null;
+  while ((m = RTR_FIELD_RE.exec(message)) !== null) {
+    if (!m[1]) continue;
+    let val = m[2];
+    if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1);
+    if (val && val !== "-") fields[m[1]] = val;
+  }
+  return fields;
+}
+
+export function isCfLogs(lines: string[]) {
+  const body = lines.filter((l) => !CF_HEADER_RE.test(l));
+  if (!body.length) return false;
+  const hits = body.filter((l) => CF_LINE_RE.test(l)).length;
+  return hits >= body.length / 2;
+}
+
+export function parseCfLine(line: string, app?: string, timeZone?: string): LogRecord {
+  const m = line.match(CF_LINE_RE);
+  if (!m) return parseTextLine(line, timeZone);
+
+  const [, ts, sourceTag, stream, message] = m;
+  const source = sourceTag.split("/")[0];
+  const instance = sourceTag.split("/").pop() ?? "";
+
+  const fields: Record<string, string> = {
+    cf_source: source,
+    cf_source_tag: sourceTag,
+    cf_stream: stream,
+  };
+  if (source === "APP") fields.cf_instance = instance;
+
+  let level: LogRecord["level"];
+  let service = app;
+  let region: string | undefined;
+  let httpStatus: number | undefined;
+  let text = message;
+
+  if (source === "RTR") {
+    Object.assign(fields, parseRouterFields(message));
+    // [RTR/n] is the router; app_index is the app instance that answered
+    if (fields.app_index) fields.cf_instance = fields.app_index;
+    const status = Number(fields.status);
+    if (Number.isFinite(status)) httpStatus = status;
+    if (httpStatus !== undefined && httpStatus >= 500) level = "ERROR";
+    else if (fields.x_cf_routererror) level = "WARN";
+    region = fields.host?.match(REGION_FROM_HOST_RE)?.[1];
+  } else if (source === "APP") {
+    // SAP logging libraries write JSON to stdout
+    const json = parseJsonLine(message, timeZone);
+    if (json) {
+      Object.assign(fields, json.fields);
+      level = json.level;
+      service = json.service ?? service;
+      region = json.region;
+      httpStatus = json.httpStatus;
+      text = json.line;
+    }
+  } else if (source === "CELL" || source === "API") {
+    if (CRASH_RE.test(message)) {
+      fields.cf_crash = "true";
+      level = "ERROR";
+    }
+  }
+
+  if (!level) {
+    level =
+      parseTextLine(` ${text} `).level ??
+      normalizeLevel(text.match(/\b(ERROR|WARN(?:ING)?|INFO|DEBUG)\b/)?.[1]) ??
+      (stream === "ERR" ? "ERROR" : undefined);
+  }
+
+  return {
+    line: `${ts} [${sourceTag}] ${stream} ${text}`,
+    level,
+    service,
+    region,
+    // cf timestamps always carry an offset
+    timestamp: parseTimestamp(ts),
+    httpStatus,
+    fields,
+  };
+}
+
+/** The app name from a "Retrieving logs for app ..." header line, if it is one. */
+export function cfHeaderApp(line: string) {
+  return line.match(CF_HEADER_RE)?.[1];
+}
+
+/** Router, instance and crash signals that only exist in `cf logs` output. */
+export function createCfSignalAccumulator() {
+  const instanceErrors = new Map<string, number>();
+  const instanceRouterErrors = new Map<string, number>();
+  const routerErrors = new Map<string, number>();
+  const responseTimesMs = createReservoir();
+
+  let rtr502 = 0;
+  let rtr503 = 0;
+  let rtr504 = 0;
+  let crashes = 0;
+  let rtSumMs = 0;
+  let rtMaxMs = 0;
+
+  function add(rec: LogRecord) {
+    const f = rec.fields;
+    if (f.cf_source === "APP" && rec.level === "ERROR") {
+      increment(instanceErrors, f.cf_instance);
+    }
+    if (f.cf_crash) crashes++;
+    if (f.cf_source !== "RTR") return;
+
+    if (rec.httpStatus === 502) rtr502++;
+    if (rec.httpStatus === 503) rtr503++;
+    if (rec.httpStatus === 504) rtr504++;
+    if (f.cf_instance && rec.httpStatus !== undefined && rec.httpStatus >= 500) {
+      increment(instanceRouterErrors, f.cf_instance);
+    }
+    if (f.x_cf_routererror) increment(routerErrors, f.x_cf_routererror);
+    // gorouter reports seconds
+    const rt = Number(f.response_time);
+    if (Number.isFinite(rt)) {
+      responseTimesMs.add(rt * 1000);
+      rtSumMs += rt * 1000;
+      rtMaxMs = Math.max(rtMaxMs, rt * 1000);
+    }
+  }
+
+  function finish() {
+    const signals: Record<string, number | string> = {
+      rtr_502: rtr502,
+      rtr_503: rtr503,
+      rtr_504: rtr504,
+      instance_crashes: crashes,
+    };
+
+    for (const [instance, count] of [...instanceErrors.entries()].sort()) {
+      signals[`errors_instance_${instance}`] = count;
+    }
+    for (const [instance, count] of [...instanceRouterErrors.entries()].sort()) {
+      signals[`rtr_5xx_instance_${instance}`] = count;
+    }
+    for (const [reason, count] of routerErrors.entries()) {
+      signals[`router_error_${reason}`] = count;
+    }
+
+    if (responseTimesMs.count()) {
+      signals.rtr_response_time_avg_ms = Math.round(rtSumMs / responseTimesMs.count());
+      signals.rtr_response_time_p95_ms = Math.round(
+        percentile(responseTimesMs.sorted(), 95)
+      );
+      signals.rtr_response_time_max_ms = Math.round(rtMaxMs);
+    }
+
+    return signals;
+  }
+
+  return { add, finish };
+}
+
+export function cfSignals(records: LogRecord[]) {
+  const acc = createCfSignalAccumulator();
+  for (const rec of records) acc.add(rec);
+  return acc.finish();
+}
@@ -0,0 +1,160 @@
+import { parseTimestamp } from "./time";
+import type { ChangeEvent, LogRecord } from "./types";
+
+/*
+ * Change events come from three places:
+ *   - `cf events <app>` output or CF v3 /v3/audit_events JSON (audit.app.update, ...)
+ *   - a JSON list of deployments / config changes, e.g. from a CI pipeline
+ *   - lines in the uploaded logs that announce a deploy, restage or config change
+ */
+const CF_EVENTS_ROW_RE = /^(\d{4}-\d{2}-\d{2}T\S+)\s+(audit\.\S+|app\.\S+)\s+(\S+)?\s*(.*)$/;
+const CF_EVENTS_APP_RE = /^Getting events for app (\S+)/i;
+
+const LOG_CHANGE_PATTERNS: Array<[RegExp, string]> = [
+  [/Updated app with guid/i, "audit.app.update"],
+  [/Restag(?:ed|ing) app/i, "audit.app.restage"],
+  [/Restart(?:ed|ing) app/i, "audit.app.restart"],
+  [/\[STG\/\d+\]/, "app.staging"],
+  [/\b(?:deployed|deployment (?:started|finished|completed)|rolling (?:update|restart)|release \S+ (?:rolled out|deployed))\b/i, "deployment"],
+  [/\bconfig(?:uration)? (?:changed|updated|reloaded)\b/i, "config.change"],
+  [/\bfeature[ _-]?(?:flag|toggle) \S+ (?:enabled|disabled|changed)\b/i, "feature_flag.change"],
+];
+// repeated lines of the same change (e.g. staging output) collapse into one event
+const DEDUPE_MS = 5 * 60_000;
+const MAX_LOG_EVENTS = 50;
+
+const TIME_KEYS = ["created_at", "time", "timestamp", "at", "date", "deployed_at"];
+const TYPE_KEYS = ["type", "event", "kind", "action"];
+const TARGET_KEYS = ["target.name", "app", "service", "component", "target"];
+const ACTOR_KEYS = ["actor.name", "actor", "user", "author", "by"];
+const DESCRIPTION_KEYS = ["description", "summary", "message", "version", "data.request"];
+
+type JsonObject = Record<string, unknown>;
+
+function pick(obj: JsonObject, keys: string[]) {
+  for (const key of keys) {
+    const v = key
+      .split(".")
+      .reduce<unknown>((o, k) => (o && typeof o === "object" ? (o as JsonObject)[k] : undefined), obj);
+    if (v === undefined || v === null || v === "") continue;
+    return typeof v === "string" ? v : typeof v === "object" ? JSON.stringify(v) : String(v);
+  }
+  return undefined;
+}
+
+function fromJson(items: unknown[], timeZone?: string): ChangeEvent[] {
+  const events: ChangeEvent[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+    const obj = item as JsonObject;
+    const at = parseTimestamp(pick(obj, TIME_KEYS), timeZone);
+    if (!at) continue;
+    const type = pick(obj, TYPE_KEYS) ?? "deployment";
+    events.push({
+      at,
+      type,
+      target: pick(obj, TARGET_KEYS),
+      actor: pick(obj, ACTOR_KEYS),
+      description: pick(obj, DESCRIPTION_KEYS),
+      source: type.startsWith("audit.") ? "audit" : "deployments",
+    });
+  }
+  return events;
+}
+
+/**
+ * Parses an uploaded change-event file: CF audit events (JSON or `cf events`
+ * table) or a JSON deployments list. Unknown input yields no events.
+ */
+export function parseChangeEvents(text: string, timeZone?: string): ChangeEvent[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed) as unknown;
+      const items = Array.isArray(json)
+        ? json
+        : Array.isArray((json as JsonObject).resources)
+          ? ((json as JsonObject).resources as unknown[])
+          : Array.isArray((json as JsonObject).deployments)
+            ? ((json as JsonObject).deployments as unknown[])
+            : [json];
+      return sortEvents(fromJson(items, timeZone));
+    } catch {
+      return [];
+    }
+  }
+
+  let app: string | undefined;
+  const events: ChangeEvent[] = [];
+  for (const line of trimmed.split(/\r?\n/)) {
+    const header = line.match(CF_EVENTS_APP_RE);
+    if (header) app = header[1];
+    const m = line.trim().match(CF_EVENTS_ROW_RE);
+    if (!m) continue;
+    const at = parseTimestamp(m[1], timeZone);
+    if (!at) continue;
+    events.push({
+      at,
+      type: m[2],
+      target: app,
+      actor: m[3],
+      description: m[4] || undefined,
+      source: "audit",
+    });
+  }
+  return sortEvents(events);
+}
+
+const CHANGE_SOURCES: ChangeEvent["source"][] = ["audit", "deployments", "logs"];
+
+/** Shape check for change events that arrive as JSON (analyze input, saved incidents). */
+export function isChangeEvent(value: unknown): value is ChangeEvent {
+  if (!value || typeof value !== "object") return false;
+  const e = value as Record<string, unknown>;
+  const optional = (k: string) => e[k] === undefined || typeof e[k] === "string";
+  return (
+    typeof e.at === "string" &&
+    !Number.isNaN(Date.parse(e.at)) &&
+    typeof e.type === "string" &&
+    CHANGE_SOURCES.includes(e.source as ChangeEvent["source"]) &&
+    optional("target") &&
+    optional("actor") &&
+    optional("description") &&
+    optional("file") &&
+    (e.lineNo === undefined || typeof e.lineNo === "number")
+  );
+}
+
+export function sortEvents(events: ChangeEvent[]) {
+  return [...events].sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Collects change announcements from log records, collapsing repeats. */
+export function createChangeDetector() {
+  const events: ChangeEvent[] = [];
+  const lastSeen = new Map<string, number>();
+
+  function add(rec: LogRecord) {
+    if (!rec.timestamp || events.length >= MAX_LOG_EVENTS) return;
+    const hit = LOG_CHANGE_PATTERNS.find(([re]) => re.test(rec.line));
+    if (!hit) return;
+
+    const at = Date.parse(rec.timestamp);
+    const key = `${hit[1]}|${rec.service ?? ""}`;
+    const prev = lastSeen.get(key);
+    lastSeen.set(key, at);
+    if (prev !== undefined && Math.abs(at - prev) < DEDUPE_MS) return;
+
+    events.push({
+      at: rec.timestamp,
+      type: hit[1],
+      target: rec.service,
+      description: rec.line.slice(0, 200),
+      source: "logs",
+      file: rec.source,
+      lineNo: rec.lineNo,
+    });
+  }
+
+  return { add, finish: () => sortEvents(events) };
+}
@@ -0,0 +1,291 @@
+import {
+  formatRecordLine,
+  normalizeLevel,
+  parseStatus,
+} from "./normalize";
+import { parseTimestamp } from "./time";
+import type { LogRecord } from "./types";
+
+export type CsvRole =
+  | "timestamp"
+  | "level"
+  | "service"
+  | "region"
+  | "status"
+  | "message";
+
+export const CSV_ROLES: CsvRole[] = [
+  "timestamp",
+  "level",
+  "service",
+  "region",
+  "status",
+  "message",
+];
+
+/** Column index per role; unmapped roles are left out. */
+export type CsvColumnMapping = Partial<Record<CsvRole, number>>;
+
+export type CsvOptions = {
+  delimiter: string;
+  hasHeader: boolean;
+  mapping: CsvColumnMapping;
+};
+
+const DELIMITERS = [",", ";", "\t", "|"];
+
+// header names commonly produced by BTP, Kibana and APM exports
+const ROLE_HINTS: Record<CsvRole, RegExp> = {
+  timestamp: /^(@?timestamp|time|ts|date|datetime|written_at|event_time)$/,
+  level: /^(level|severity|log_level|loglevel|levelname)$/,
+  service: /^(service|component|component_name|app|app_name|application|application_name)$/,
+  region: /^(region|landscape|cf_region|cloud_region|location)$/,
+  status: /^(status|status_code|http_status|httpstatus|response_status|code)$/,
+  message: /^(message|msg|log|text|description|details)$/,
+};
+
+/**
+ * RFC 4180-style parser: quoted fields, doubled quotes ("") and newlines
+ * inside quotes. Blank rows are dropped.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(field);
+    field = "";
+    if (row.some((c) => c.trim() !== "")) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      pushRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) pushRow();
+
+  return rows.map((r) => r.map((c) => c.trim()));
+}
+
+/** Picks the delimiter that splits the first rows into the most consistent columns. */
+export function detectDelimiter(text: string) {
+  const head = text.split(/\r?\n/).slice(0, 6).join("\n");
+  let best = ",";
+  let bestCols = 1;
+  for (const d of DELIMITERS) {
+    const rows = parseCsv(head, d);
+    if (!rows.length) continue;
+    const cols = rows[0].length;
+    const consistent = rows.every((r) => r.length === cols);
+    if (consistent && cols > bestCols) {
+      best = d;
+      bestCols = cols;
+    }
+  }
+  return best;
+}
+
+export function detectHeader(rows: string[][]) {
+  const first = rows[0];
+  if (!first?.length) return false;
+  const names = first.map((c) => c.toLowerCase());
+  if (names.some((n) => Object.values(ROLE_HINTS).some((re) => re.test(n)))) {
+    return true;
+  }
+  // a header row carries no digits while data rows usually do
+  const second = rows[1];
+  return (
+    !!second &&
+    first.every((c) => !/\d/.test(c)) &&
+    second.some((c) => /\d/.test(c))
+  );
+}
+
+/**
+ * True when the text opens with a header row naming at least two known
+ * columns and the rows after it have as many, so a pasted export is taken
+ * for CSV without a .csv file name.
+ */
+export function looksLikeCsv(text: string) {
+  const head = text
+    .slice(0, 65536)
+    .split(/\r?\n/)
+    .filter((l) => l.trim())
+    .slice(0, 6)
+    .join("\n");
+  const rows = parseCsv(head, detectDelimiter(head));
+  const cols = rows[0]?.length ?? 0;
+  if (cols < 2 || rows.length < 2 || rows.some((r) => r.length !== cols)) return false;
+  return Object.keys(guessColumnMapping(rows[0])).length >= 2;
+}
+
+export function headerSignature(headers: string[], delimiter: string) {
+  return `${delimiter}:${headers.map((h) => h.trim().toLowerCase()).join("|")}`;
+}
+
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const names = headers.map((h) => h.trim().toLowerCase());
+  for (const role of CSV_ROLES) {
+    const idx = names.findIndex((n) => ROLE_HINTS[role].test(n));
+    if (idx >= 0) mapping[role] = idx;
+  }
+  return mapping;
+}
+
+export function columnNames(rows: string[][], hasHeader: boolean) {
+  const width = rows.reduce((m, r) => Math.max(m, r.length), 0);
+  return Array.from({ length: width }, (_v, i) =>
+    hasHeader && rows[0]?.[i] ? rows[0][i] : `column_${i + 1}`
+  );
+}
+
+/** Turns parsed CSV rows into records using the chosen column mapping. */
+export function createCsvRowMapper(
+  headers: string[],
+  mapping: CsvColumnMapping,
+  timeZone?: string
+) {
+  const mapped = new Set(Object.values(mapping));
+
+  const cell = (row: string[], role: CsvRole) => {
+    const idx = mapping[role];
+    return idx === undefined ? undefined : row[idx] || undefined;
+  };
+
+  return (row: string[]): LogRecord => {
+    const fields: Record<string, string> = {};
+    headers.forEach((h, i) => {
+      if (row[i] !== undefined && row[i] !== "") fields[h] = row[i];
+    });
+
+    const timestamp = parseTimestamp(cell(row, "timestamp"), timeZone);
+    const level = normalizeLevel(cell(row, "level"));
+    const service = cell(row, "service");
+    const region = cell(row, "region");
+    const httpStatus = parseStatus(cell(row, "status"));
+    // without a message column, keep every unmapped cell as the message
+    const message =
+      cell(row, "message") ??
+      row.filter((c, i) => c && !mapped.has(i)).join(" ");
+
+    return {
+      line: formatRecordLine({ timestamp, level, service, message, httpStatus }),
+      level,
+      service,
+      region,
+      timestamp,
+      httpStatus,
+      fields,
+    };
+  };
+}
+
+/**
+ * Whether a quoted field is still open after `line`, reading quotes the way
+ * parseCsv does: only a quote at the start of a field opens one.
+ */
+function endsInQuotes(line: string, delimiter: string, inQuotes: boolean) {
+  // the field so far is blank, so a quote here would open a quoted field
+  let blank = !inQuotes;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch !== '"') {
+        if (ch.trim()) blank = false;
+      } else if (line[i + 1] === '"') {
+        blank = false;
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (ch === '"' && blank) {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      blank = true;
+    } else if (ch.trim()) {
+      blank = false;
+    }
+  }
+  return inQuotes;
+}
+
+/**
+ * Line-at-a-time CSV parsing: the delimiter and header are detected on the
+ * sample lines, then physical lines are joined while a quoted field is open
+ * and each complete row is mapped to a record. `flush` emits a row left open
+ * at the end of the input.
+ */
+export function createCsvSink(
+  sample: string[],
+  opts: Partial<CsvOptions>,
+  timeZone: string | undefined,
+  emit: (rec: LogRecord, lineNo: number) => void
+) {
+  const delimiter = opts.delimiter || detectDelimiter(sample.join("\n"));
+  const sampleRows = parseCsv(sample.join("\n"), delimiter);
+  const hasHeader = opts.hasHeader ?? detectHeader(sampleRows);
+  const headers = columnNames(sampleRows, hasHeader);
+  const toRecord = createCsvRowMapper(
+    headers,
+    opts.mapping ?? guessColumnMapping(headers),
+    timeZone
+  );
+
+  let skipHeader = hasHeader;
+  let buffer = "";
+  let inQuotes = false;
+  // line the buffered row started on; quoted fields may span lines
+  let startLine = 0;
+
+  function flush() {
+    const rows = parseCsv(buffer, delimiter);
+    buffer = "";
+    inQuotes = false;
+    for (const row of rows) {
+      if (skipHeader) {
+        skipHeader = false;
+        continue;
+      }
+      emit(toRecord(row), startLine);
+    }
+  }
+
+  function push(line: string, lineNo: number) {
+    if (!buffer) startLine = lineNo;
+    buffer = buffer ? `${buffer}\n${line}` : line;
+    inQuotes = endsInQuotes(line, delimiter, inQuotes);
+    if (!inQuotes) flush();
+  }
+
+  return { push, flush };
+}
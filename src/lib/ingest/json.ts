@@ -0,0 +1,152 @@
+import {
+  formatRecordLine,
+  normalizeLevel,
+  parseStatus,
+} from "./normalize";
+import { parseTimestamp } from "./time";
+import type { LogRecord } from "./types";
+
+/*
+ * Field aliases for SAP Application Logging (cf-java/nodejs-logging-support)
+ * and SAP Cloud Logging exports. Nested objects are flattened with dots, so
+ * "cf.app" matches {"cf": {"app": "..."}}.
+ */
+const MESSAGE_KEYS = ["msg", "message", "log", "text"];
+const LEVEL_KEYS = ["level", "severity", "log_level", "levelname"];
+const SERVICE_KEYS = ["component_name", "app_name", "application_name", "cf.app", "service"];
+const REGION_KEYS = ["region", "cf_region", "cloud_region", "landscape", "cf.region"];
+const TIMESTAMP_KEYS = ["written_at", "written_ts", "@timestamp", "timestamp", "time", "ts"];
+const STATUS_KEYS = ["response_status", "status_code", "httpStatus", "status"];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(v: unknown): v is JsonObject {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function flatten(obj: JsonObject, prefix = "", out: Record<string, string> = {}) {
+  for (const [k, v] of Object.entries(obj)) {
+    const key = prefix ? `${prefix}.${k}` : k;
+    if (isObject(v)) flatten(v, key, out);
+    else if (v !== null && v !== undefined) {
+      out[key] = typeof v === "string" ? v : JSON.stringify(v);
+    }
+  }
+  return out;
+}
+
+function firstOf(fields: Record<string, string>, keys: string[]) {
+  for (const k of keys) {
+    const v = fields[k];
+    if (v !== undefined && v !== "") return v;
+  }
+  return undefined;
+}
+
+function recordFromObject(obj: JsonObject, timeZone?: string): LogRecord {
+  // OpenSearch / Kibana exports wrap each hit in _source
+  const source = isObject(obj._source) ? obj._source : obj;
+  const fields = flatten(source);
+
+  const message = firstOf(fields, MESSAGE_KEYS) ?? "";
+  const level = normalizeLevel(firstOf(fields, LEVEL_KEYS));
+  const service = firstOf(fields, SERVICE_KEYS);
+  const region = firstOf(fields, REGION_KEYS);
+  const timestamp = parseTimestamp(firstOf(fields, TIMESTAMP_KEYS), timeZone);
+
+  const httpStatus = parseStatus(firstOf(fields, STATUS_KEYS));
+
+  const line = formatRecordLine({
+    timestamp,
+    level,
+    service,
+    message,
+    httpStatus,
+    correlationId: fields.correlation_id,
+  });
+
+  return {
+    line: line || JSON.stringify(source),
+    level,
+    service,
+    region,
+    timestamp,
+    httpStatus,
+    fields,
+  };
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Parses a single JSON log object embedded in a line, e.g. an app's stdout. */
+export function parseJsonLine(text: string, timeZone?: string): LogRecord | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{")) return null;
+  const obj = tryParse(trimmed);
+  return isObject(obj) ? recordFromObject(obj, timeZone) : null;
+}
+
+/**
+ * Scans a JSON document — a top-level array or a (pretty-printed) object —
+ * and emits each top-level object as text, with the line it starts on, so a
+ * huge `[{...},{...}]` export
+ * never has to be held in memory at once.
+ */
+export function createJsonObjectSplitter(onObject: (text: string, lineNo: number) => void) {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let buf = "";
+  // 1-based line of the text so far, and the one the open object started on
+  let line = 1;
+  let objLine = 1;
+
+  return (text: string) => {
+    let objStart = depth > 0 ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === "\n") line++;
+      if (depth === 0) {
+        if (ch === "{") {
+          depth = 1;
+          objStart = i;
+          objLine = line;
+        }
+        continue;
+      }
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === "{" || ch === "[") depth++;
+      else if (ch === "}" || ch === "]") {
+        depth--;
+        if (depth === 0) {
+          onObject(buf + text.slice(objStart, i + 1), objLine);
+          buf = "";
+          objStart = -1;
+        }
+      }
+    }
+
+    if (depth > 0 && objStart >= 0) buf += text.slice(objStart);
+  };
+}
+
+/** True when at least half of the lines are standalone JSON objects. */
+export function looksLikeNdjson(lines: string[]) {
+  const jsonCount = lines.filter(
+    (l) => l.startsWith("{") && isObject(tryParse(l))
+  ).length;
+  return jsonCount > 0 && jsonCount >= lines.length / 2;
+}
@@ -0,0 +1,270 @@
+import { bucketStep } from "./series";
+import { createReservoir, percentile, weightedPercentile } from "./stats";
+import type {
+  EvidenceLine,
+  LatencyPoint,
+  LatencyRow,
+  LatencyStats,
+  LatencySummary,
+  LogRecord,
+} from "./types";
+
+/*
+ * Durations come from fields such as response_time, duration_ms, latency,
+ * elapsed_time or time_taken (JSON, key=value, gorouter, nginx, IIS) or,
+ * failing that, from phrases like
+ * "took 850ms" in the message. Units are taken from the key suffix, then the
+ * value suffix; a bare response_time / request_time is seconds (gorouter,
+ * nginx), any other bare value milliseconds.
+ */
+const KEY_RE =
+  /^(upstream_?response_?time|response_?time|request_?time|request_?duration|duration|latency|elapsed(?:_?time)?|time_?elapsed|took|time_?taken)(.*)$/i;
+// a unit is its own token, `_ms` or `Ms`, so `durations` is not duration + s
+const KEY_UNIT_RE = /^(?:_([A-Za-z]+)|([A-Z][a-z]*))$/;
+const KEY_UNITS = new Set(["ms", "millis", "us", "micros", "ns", "nanos", "s", "sec", "secs", "seconds"]);
+const VALUE_RE = /^(\d+(?:\.\d+)?)\s*(ms|us|µs|ns|s|sec|secs|seconds|m|min)?$/i;
+const TEXT_RE =
+  /\b(?:took|latency|duration|elapsed|response time|completed in)\s*(?:of|:|=|in)?\s*(\d+(?:\.\d+)?)\s*(ms|us|µs|ns|s|sec|secs|seconds)\b/i;
+const SECONDS_KEY_RE = /^(upstream_?response_?time|response_?time|request_?time)$/i;
+
+const ROUTE_KEYS = ["path", "request_path", "http.path", "request.path", "route", "uri", "url", "request"];
+const METHOD_KEYS = ["method", "request_method", "http.method", "request.method", "verb"];
+const REQUEST_LINE_RE = /"?\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(\/\S*)/;
+const ID_SEGMENT_RE =
+  /^(?:\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{8,}|(?=[A-Za-z0-9_-]*\d)[A-Za-z0-9_-]{16,})$/i;
+
+const MAX_KEYS = 200;
+const OTHER_KEY = "(other)";
+const RETURNED_ROWS = 10;
+// routes with fewer samples are too noisy to rank
+const MIN_ROUTE_SAMPLES = 3;
+const BUCKET_SAMPLES = 100;
+// a bucket's p95 needs this many requests before it can mark a regression
+const MIN_BUCKET_SAMPLES = 20;
+const REGRESSION_MULTIPLE = 1.5;
+// slowest lines kept as evidence
+const SLOWEST_LINES = 3;
+
+function toMs(value: number, unit: string | undefined) {
+  switch (unit?.toLowerCase()) {
+    case "us":
+    case "µs":
+    case "micros":
+      return value / 1000;
+    case "ns":
+    case "nanos":
+      return value / 1_000_000;
+    case "s":
+    case "sec":
+    case "secs":
+    case "seconds":
+      return value * 1000;
+    case "m":
+    case "min":
+      return value * 60_000;
+    default:
+      return value;
+  }
+}
+
+/** The duration name and unit suffix of a field key, or undefined for other keys. */
+function durationKey(key: string) {
+  const k = key.match(KEY_RE);
+  if (!k) return undefined;
+  if (!k[2]) return { name: k[1], unit: undefined };
+  const u = k[2].match(KEY_UNIT_RE);
+  const unit = (u?.[1] ?? u?.[2])?.toLowerCase();
+  return unit && KEY_UNITS.has(unit) ? { name: k[1], unit } : undefined;
+}
+
+/** Request duration in ms carried by a record, if any. */
+export function latencyOf(rec: LogRecord): number | undefined {
+  for (const [key, raw] of Object.entries(rec.fields)) {
+    const k = durationKey(key) ?? durationKey(key.split(".").pop() ?? "");
+    if (!k) continue;
+    const v = raw.trim().match(VALUE_RE);
+    if (!v) continue;
+    const unit = k.unit ?? v[2] ?? (SECONDS_KEY_RE.test(k.name) ? "s" : "ms");
+    return toMs(Number(v[1]), unit);
+  }
+  const t = rec.line.match(TEXT_RE);
+  return t ? toMs(Number(t[1]), t[2]) : undefined;
+}
+
+/** "/orders/4711/items?x=1" → "/orders/:id/items". */
+export function templateRoute(path: string) {
+  let p = path;
+  try {
+    if (/^https?:\/\//i.test(p)) p = new URL(p).pathname;
+  } catch {
+    // keep as-is
+  }
+  p = p.split(/[?#]/)[0];
+  return (
+    p
+      .split("/")
+      .map((seg) => (ID_SEGMENT_RE.test(seg) ? ":id" : seg))
+      .join("/") || "/"
+  );
+}
+
+/** HTTP method and templated route of a record, from fields or a request line. */
+export function routeOf(rec: LogRecord): { method?: string; route?: string } {
+  const field = (keys: string[]) => keys.map((k) => rec.fields[k]).find(Boolean);
+  const path = field(ROUTE_KEYS);
+  const method = field(METHOD_KEYS)?.toUpperCase();
+  if (path?.startsWith("/") || /^https?:\/\//i.test(path ?? "")) {
+    return { method, route: templateRoute(path!) };
+  }
+  const m = rec.line.match(REQUEST_LINE_RE);
+  return m ? { method: m[1], route: templateRoute(m[2]) } : { method };
+}
+
+function roundMs(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+function stats(sorted: number[], count: number): LatencyStats {
+  return {
+    count,
+    p50: roundMs(percentile(sorted, 50)),
+    p90: roundMs(percentile(sorted, 90)),
+    p95: roundMs(percentile(sorted, 95)),
+    p99: roundMs(percentile(sorted, 99)),
+    max: roundMs(sorted[sorted.length - 1] ?? 0),
+  };
+}
+
+function createKeyedReservoirs() {
+  const byKey = new Map<string, ReturnType<typeof createReservoir>>();
+  return {
+    add(key: string, ms: number) {
+      let res = byKey.get(key);
+      if (!res) {
+        const k = byKey.size >= MAX_KEYS ? OTHER_KEY : key;
+        res = byKey.get(k) ?? createReservoir(1000);
+        byKey.set(k, res);
+      }
+      res.add(ms);
+    },
+    rows(minCount = 1): LatencyRow[] {
+      const rows = [...byKey.entries()].map(([key, res]) => ({
+        key,
+        ...stats(res.sorted(), res.count()),
+      }));
+      const enough = rows.filter((r) => r.count >= minCount);
+      return (enough.length ? enough : rows)
+        .sort((a, b) => b.p95 - a.p95 || b.count - a.count)
+        .slice(0, RETURNED_ROWS);
+    },
+  };
+}
+
+/** Overall, per-service, per-route and per-bucket latency percentiles. */
+export function createLatencyAccumulator() {
+  const overall = createReservoir();
+  const byService = createKeyedReservoirs();
+  const byRoute = createKeyedReservoirs();
+  const minutes = new Map<number, ReturnType<typeof createReservoir>>();
+  const slowest: Array<{ ms: number; line: EvidenceLine }> = [];
+  let maxMs = 0;
+
+  /** Records the line's duration, if it has one, and returns it. */
+  function add(rec: LogRecord, at?: number) {
+    const ms = latencyOf(rec);
+    if (ms === undefined || !Number.isFinite(ms) || ms < 0) return undefined;
+
+    overall.add(ms);
+    maxMs = Math.max(maxMs, ms);
+    if (slowest.length < SLOWEST_LINES || ms > slowest[slowest.length - 1].ms) {
+      slowest.push({ ms, line: { source: rec.source, lineNo: rec.lineNo, line: rec.line } });
+      slowest.sort((a, b) => b.ms - a.ms);
+      slowest.length = Math.min(slowest.length, SLOWEST_LINES);
+    }
+    if (rec.service) byService.add(rec.service, ms);
+    const { method, route } = routeOf(rec);
+    if (route) byRoute.add(method ? `${method} ${route}` : route, ms);
+
+    if (at !== undefined) {
+      const key = Math.floor(at / 60_000);
+      let res = minutes.get(key);
+      if (!res) {
+        res = createReservoir(BUCKET_SAMPLES);
+        minutes.set(key, res);
+      }
+      res.add(ms);
+    }
+    return ms;
+  }
+
+  function buildLatencySeries() {
+    if (!minutes.size) return { bucketMinutes: 1, series: [] as LatencyPoint[] };
+    const keys = [...minutes.keys()].sort((a, b) => a - b);
+    const step = bucketStep(keys[0], keys[keys.length - 1]);
+
+    // each minute keeps at most BUCKET_SAMPLES, so a busy minute's samples
+    // stand for more requests than a quiet one's
+    type Bucket = { count: number; values: Array<{ value: number; weight: number }> };
+    const buckets = new Map<number, Bucket>();
+    for (const k of keys) {
+      const idx = Math.floor(k / step);
+      const res = minutes.get(k)!;
+      const sample = res.sorted();
+      const weight = res.count() / sample.length;
+      const b = buckets.get(idx) ?? { count: 0, values: [] };
+      b.count += res.count();
+      for (const value of sample) b.values.push({ value, weight });
+      buckets.set(idx, b);
+    }
+
+    const series = [...buckets.entries()].map(([idx, b]) => {
+      const sorted = b.values.sort((x, y) => x.value - y.value);
+      return {
+        start: new Date(idx * step * 60_000).toISOString(),
+        count: b.count,
+        p50: roundMs(weightedPercentile(sorted, 50)),
+        p95: roundMs(weightedPercentile(sorted, 95)),
+        max: roundMs(sorted[sorted.length - 1]?.value ?? 0),
+      };
+    });
+    return { bucketMinutes: step, series };
+  }
+
+  function finish(): LatencySummary | undefined {
+    if (!overall.count()) return undefined;
+    const { bucketMinutes, series } = buildLatencySeries();
+
+    // a p95 well above the typical bucket marks a latency regression
+    const sampled = series.filter((p) => p.count >= MIN_BUCKET_SAMPLES);
+    let regression: LatencySummary["regression"];
+    if (sampled.length >= 3) {
+      const normalP95 = percentile(
+        sampled.map((p) => p.p95).sort((a, b) => a - b),
+        50
+      );
+      const worst = sampled.reduce((a, b) => (b.p95 > a.p95 ? b : a));
+      const multiple = normalP95 ? worst.p95 / normalP95 : 0;
+      if (multiple >= REGRESSION_MULTIPLE) {
+        regression = {
+          start: worst.start,
+          p95: worst.p95,
+          normalP95,
+          multiple: Math.round(multiple * 10) / 10,
+        };
+      }
+    }
+
+    return {
+      ...stats(overall.sorted(), overall.count()),
+      max: Math.round(maxMs * 10) / 10,
+      byService: byService.rows(),
+      byRoute: byRoute.rows(MIN_ROUTE_SAMPLES),
+      bucketMinutes,
+      series,
+      regression,
+      slowest: slowest.map((s) => s.line),
+    };
+  }
+
+  return { add, finish };
+}
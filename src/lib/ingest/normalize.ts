@@ -0,0 +1,38 @@
+import type { LogLevel } from "./types";
+
+export function normalizeLevel(v?: string): LogLevel | undefined {
+  const u = (v ?? "").trim().toUpperCase();
+  if (!u) return undefined;
+  if (["ERROR", "ERR", "FATAL", "CRITICAL", "SEVERE"].includes(u)) return "ERROR";
+  if (["WARN", "WARNING"].includes(u)) return "WARN";
+  if (["INFO", "NOTICE"].includes(u)) return "INFO";
+  if (["DEBUG", "TRACE"].includes(u)) return "DEBUG";
+  return undefined;
+}
+
+export function parseStatus(v?: string) {
+  // Number(" ") is 0, not NaN
+  const n = v?.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Rebuilds a readable line so samples and pattern checks see the message. */
+export function formatRecordLine(parts: {
+  timestamp?: string;
+  level?: LogLevel;
+  service?: string;
+  message: string;
+  httpStatus?: number;
+  correlationId?: string;
+}) {
+  return [
+    parts.timestamp,
+    parts.level,
+    parts.service ? `[${parts.service}]` : undefined,
+    parts.message,
+    parts.httpStatus !== undefined ? `status=${parts.httpStatus}` : undefined,
+    parts.correlationId ? `correlation_id=${parts.correlationId}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,228 @@
+import { cfHeaderApp, cfSignals, isCfLogs, parseCfLine } from "./cf";
+import { createCsvSink, looksLikeCsv, type CsvOptions } from "./csv";
+import { createJsonObjectSplitter, looksLikeNdjson, parseJsonLine } from "./json";
+import { parseTextLine } from "./text";
+import type { LogRecord, SourceFormat } from "./types";
+
+export type ParsedLogs = {
+  format: SourceFormat;
+  records: LogRecord[];
+  extraSignals: Record<string, number | string>;
+};
+
+export type ParseOptions = {
+  format?: string;
+  csv?: Partial<CsvOptions>;
+  timeZone?: string;
+};
+
+export type LogParser = {
+  // text in chunks of any size
+  push: (text: string) => void;
+  // flushes what is left; call once after the last push
+  end: () => void;
+  format: () => SourceFormat;
+};
+
+// lines buffered before the format is decided
+const DETECT_LINES = 200;
+// a "line" this long without a newline is flushed as-is
+const MAX_LINE_CHARS = 1_000_000;
+
+const RTF_PREFIX = "{\\rtf";
+
+export function stripRtf(input: string) {
+  const trimmed = (input ?? "").trim();
+  if (!trimmed.startsWith(RTF_PREFIX)) return input;
+
+  return trimmed
+    .replace(/\\par[d]?/g, "\n")
+    .replace(/\\'([0-9a-fA-F]{2})/g, (_m, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+    .replace(/\{\\\*?[^{}]*\}/g, "")
+    .replace(/\\[a-zA-Z]+\d* ?/g, "")
+    .replace(/[{}]/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * The one log parser behind /api/ingest, bundles and the streaming ingest,
+ * so the same input gives the same records however it arrives. RTF is
+ * buffered and converted whole; a document starting with `[`, or with `{`
+ * on a line that is not a complete object, is a JSON document whose
+ * top-level objects are the records. Otherwise the format is decided on the
+ * first DETECT_LINES lines: CSV when asked for (file extension or column
+ * mapping), then NDJSON, `cf logs` output, CSV with a recognisable header
+ * row, plain text last.
+ */
+export function createLogParser(
+  opts: ParseOptions,
+  emit: (rec: LogRecord) => void
+): LogParser {
+  const tz = opts.timeZone;
+  let format: SourceFormat = "text";
+  let mode: "start" | "rtf" | "document" | "lines" = "start";
+  // text seen before the mode is decided, or all of an RTF paste
+  let head = "";
+  let carry = "";
+  // physical lines seen so far, blank ones included
+  let lines = 0;
+  // RTF lines do not map back to the pasted text
+  let numbered = true;
+  let pending: Array<[string, number]> | null = [];
+  let sink: ((line: string, lineNo: number) => void) | null = null;
+  // emits a CSV row still open at the end of the input
+  let flushSink: (() => void) | null = null;
+  let splitter: ((text: string) => void) | null = null;
+
+  function at(rec: LogRecord, lineNo: number) {
+    if (numbered) rec.lineNo = lineNo;
+    return rec;
+  }
+
+  function startCsv(sample: string[], csv: Partial<CsvOptions>) {
+    const csvSink = createCsvSink(sample, csv, tz, (rec, n) => emit(at(rec, n)));
+    sink = csvSink.push;
+    flushSink = csvSink.flush;
+  }
+
+  function startSink(sample: string[]) {
+    if (opts.format === "csv") {
+      format = "csv";
+      startCsv(sample, opts.csv ?? {});
+    } else if (looksLikeNdjson(sample)) {
+      format = "json";
+      sink = (l, n) => emit(at(parseJsonLine(l, tz) ?? parseTextLine(l, tz), n));
+    } else if (isCfLogs(sample)) {
+      format = "cf";
+      let app = sample.map(cfHeaderApp).find(Boolean);
+      sink = (l, n) => {
+        const header = cfHeaderApp(l);
+        if (header) app = header;
+        else emit(at(parseCfLine(l, app, tz), n));
+      };
+    } else if (looksLikeCsv(sample.join("\n"))) {
+      format = "csv";
+      startCsv(sample, {});
+    } else {
+      format = "text";
+      sink = (l, n) => emit(at(parseTextLine(l, tz), n));
+    }
+  }
+
+  function flushPending() {
+    if (!pending) return;
+    const sample = pending;
+    pending = null;
+    startSink(sample.map(([l]) => l));
+    for (const [l, n] of sample) sink!(l, n);
+  }
+
+  function onLine(raw: string) {
+    const lineNo = ++lines;
+    const line = raw.trim();
+    if (!line) return;
+    if (sink) {
+      sink(line, lineNo);
+      return;
+    }
+    pending!.push([line, lineNo]);
+    if (pending!.length >= DETECT_LINES) flushPending();
+  }
+
+  function onLines(text: string) {
+    carry += text;
+    const parts = carry.split("\n");
+    carry = parts.pop() ?? "";
+    for (const p of parts) onLine(p);
+    if (carry.length > MAX_LINE_CHARS) {
+      onLine(carry);
+      carry = "";
+    }
+  }
+
+  /** Picks the mode from the start of the input; false while that needs more text. */
+  function decide(final: boolean) {
+    const start = head.trimStart();
+    if (!start) return final;
+    if (start.startsWith(RTF_PREFIX)) {
+      mode = "rtf";
+      return true;
+    }
+    if (!final && RTF_PREFIX.startsWith(start)) return false;
+
+    let document = opts.format !== "csv" && start.startsWith("[");
+    if (opts.format !== "csv" && start.startsWith("{")) {
+      const newline = start.indexOf("\n");
+      if (newline < 0 && !final) return false;
+      // NDJSON opens with a complete object on its first line
+      document = !looksLikeNdjson([start.slice(0, newline < 0 ? undefined : newline).trim()]);
+    }
+
+    if (document) {
+      format = "json";
+      mode = "document";
+      pending = null;
+      splitter = createJsonObjectSplitter((obj, n) =>
+        emit(at(parseJsonLine(obj, tz) ?? parseTextLine(obj, tz), n))
+      );
+    } else {
+      mode = "lines";
+    }
+    return true;
+  }
+
+  function feed(text: string) {
+    if (mode === "document") splitter!(text);
+    else onLines(text);
+  }
+
+  function push(text: string) {
+    if (mode === "start") {
+      head += text;
+      if (!decide(false)) return;
+      text = head;
+      head = "";
+    }
+    if (mode === "rtf") head += text;
+    else if (mode !== "start") feed(text);
+  }
+
+  function end() {
+    if (mode === "start") {
+      decide(true);
+      const text = head;
+      head = "";
+      if (mode === "start") return;
+      if (mode !== "rtf") feed(text);
+      else head = text;
+    }
+    if (mode === "rtf") {
+      const text = stripRtf(head);
+      head = "";
+      mode = "lines";
+      numbered = false;
+      onLines(text);
+    }
+    if (mode === "lines") {
+      if (carry) onLine(carry);
+      carry = "";
+      flushPending();
+      flushSink?.();
+    }
+  }
+
+  return { push, end, format: () => format };
+}
+
+/** Parses a whole text at once; see createLogParser. */
+export function parseLogs(raw: string, opts: ParseOptions = {}): ParsedLogs {
+  const records: LogRecord[] = [];
+  const parser = createLogParser(opts, (rec) => records.push(rec));
+  parser.push(raw);
+  parser.end();
+  const format = parser.format();
+  return { format, records, extraSignals: format === "cf" ? cfSignals(records) : {} };
+}
@@ -0,0 +1,72 @@
+import type { SeriesBucket, SignalSeries } from "./types";
+
+export type BucketCounts = Omit<SeriesBucket, "start">;
+
+// coarser buckets kick in when a window would need more than MAX_BUCKETS
+const BUCKET_STEPS = [1, 5, 15, 60, 360, 1440];
+const MAX_BUCKETS = 1440;
+
+export function emptyCounts(): BucketCounts {
+  return { lines: 0, errors: 0, warns: 0, timeouts: 0, http5xx: 0 };
+}
+
+/** Errors, timeouts and 5xx in a bucket. */
+export function bucketFailures(b: SeriesBucket) {
+  return b.errors + b.timeouts + b.http5xx;
+}
+
+/** Start of the first bucket with failures, if the series has any. */
+export function firstFailureAt(series: SignalSeries | undefined) {
+  return Array.isArray(series?.buckets)
+    ? series.buckets.find((b) => bucketFailures(b) > 0)?.start
+    : undefined;
+}
+
+/** When failures began: the earliest of the first failing bucket and the given times. */
+export function failureOnset(series: SignalSeries | undefined, ...times: Array<string | undefined>) {
+  return [firstFailureAt(series), ...times].filter((t): t is string => !!t).sort()[0];
+}
+
+/** Bucket size in minutes for a series spanning epoch minutes first..last. */
+export function bucketStep(first: number, last: number) {
+  const span = last - first + 1;
+  return (
+    BUCKET_STEPS.find((s) => span / s <= MAX_BUCKETS) ??
+    BUCKET_STEPS[BUCKET_STEPS.length - 1]
+  );
+}
+
+/**
+ * Rolls per-minute counts (keyed by epoch minute) into a gap-free series, so
+ * quiet minutes show up as zeros rather than being skipped.
+ */
+export function buildSeries(minutes: Map<number, BucketCounts>): SignalSeries {
+  if (!minutes.size) return { bucketMinutes: 1, buckets: [] };
+
+  let first = Number.POSITIVE_INFINITY;
+  let last = Number.NEGATIVE_INFINITY;
+  for (const k of minutes.keys()) {
+    if (k < first) first = k;
+    if (k > last) last = k;
+  }
+
+  const step = bucketStep(first, last);
+  const firstIdx = Math.floor(first / step);
+  const count = Math.floor(last / step) - firstIdx + 1;
+
+  const buckets: SeriesBucket[] = Array.from({ length: count }, (_v, i) => ({
+    start: new Date((firstIdx + i) * step * 60_000).toISOString(),
+    ...emptyCounts(),
+  }));
+
+  for (const [minute, c] of minutes.entries()) {
+    const b = buckets[Math.floor(minute / step) - firstIdx];
+    b.lines += c.lines;
+    b.errors += c.errors;
+    b.warns += c.warns;
+    b.timeouts += c.timeouts;
+    b.http5xx += c.http5xx;
+  }
+
+  return { bucketMinutes: step, buckets };
+}
@@ -0,0 +1,229 @@
+import { matchPatterns, type RuleSet } from "../rules/match";
+import { detectAnomalies } from "./anomaly";
+import { createBlastAccumulator } from "./blast";
+import { createBreakdownAccumulator } from "./breakdown";
+import { createChangeDetector } from "./changes";
+import { createLatencyAccumulator } from "./latency";
+import { buildSeries, emptyCounts, type BucketCounts } from "./series";
+import { createSloAccumulator } from "./slo";
+import { increment, mostCommon } from "./stats";
+import { createTemplateMiner } from "./templates";
+import { createTraceAccumulator } from "./traces";
+import type { Incident, LogRecord, PatternEvidence, SourceFormat } from "./types";
+
+// evidence lines kept per pattern
+const EVIDENCE_LINES = 5;
+
+export type SignalAccumulator = {
+  add: (rec: LogRecord) => void;
+  finish: (extraSignals?: Record<string, number | string>) => Incident;
+};
+
+/**
+ * Incremental signal extraction. State is counters plus the first sample
+ * lines, so memory stays flat however many records are added.
+ */
+export function createSignalAccumulator(
+  sourceFormat: SourceFormat,
+  ruleSet: RuleSet
+): SignalAccumulator {
+  const services = new Map<string, number>();
+  const regions = new Map<string, number>();
+  const sampleLines: string[] = [];
+
+  let logLines = 0;
+  let errors = 0;
+  let warns = 0;
+  let infos = 0;
+  let timeouts = 0;
+  let http5xx = 0;
+  let minMs = Number.POSITIVE_INFINITY;
+  let maxMs = Number.NEGATIVE_INFINITY;
+  // per-minute counters keyed by epoch minute
+  const minutes = new Map<number, BucketCounts>();
+  const breakdown = createBreakdownAccumulator();
+  const traces = createTraceAccumulator();
+  const templates = createTemplateMiner();
+  const changes = createChangeDetector();
+  const latency = createLatencyAccumulator();
+  const blast = createBlastAccumulator();
+  const slo = createSloAccumulator(ruleSet.slo.slos);
+
+  // pattern counters, overall and per epoch minute
+  const patterns = new Map<string, number>();
+  const patternMinutes = new Map<number, Map<string, number>>();
+  // first lines each pattern fired on, cited by root-cause hypotheses
+  const evidence = new Map<string, { firstMs: number; lines: PatternEvidence["lines"] }>();
+
+  function add(rec: LogRecord) {
+    logLines++;
+    const upper = rec.line.toUpperCase();
+    if (rec.level === "ERROR") errors++;
+    else if (rec.level === "WARN") warns++;
+    else if (rec.level === "INFO") infos++;
+
+    const isTimeout = upper.includes("TIMEOUT");
+    if (isTimeout) timeouts++;
+
+    if (rec.service) increment(services, rec.service);
+    if (rec.region) increment(regions, rec.region);
+
+    // http status
+    const hs = rec.httpStatus;
+    const is5xx = hs !== undefined && hs >= 500 && hs <= 599;
+    if (is5xx) http5xx++;
+
+    // lines may be out of order, so the window is min/max, not first/last
+    const at = rec.timestamp ? Date.parse(rec.timestamp) : NaN;
+    if (Number.isFinite(at)) {
+      if (at < minMs) minMs = at;
+      if (at > maxMs) maxMs = at;
+
+      const key = Math.floor(at / 60_000);
+      let bucket = minutes.get(key);
+      if (!bucket) {
+        bucket = emptyCounts();
+        minutes.set(key, bucket);
+      }
+      bucket.lines++;
+      if (rec.level === "ERROR") bucket.errors++;
+      if (rec.level === "WARN") bucket.warns++;
+      if (isTimeout) bucket.timeouts++;
+      if (is5xx) bucket.http5xx++;
+    }
+
+    breakdown.add(rec, {
+      isError: rec.level === "ERROR",
+      isTimeout,
+      is5xx,
+      at: Number.isFinite(at) ? at : undefined,
+    });
+    const failed = rec.level === "ERROR" || isTimeout || is5xx;
+    traces.add(rec, failed);
+    blast.add(rec, failed);
+
+    // pattern extraction from the rule catalog
+    const matched = matchPatterns(ruleSet.rules, rec);
+    for (const pattern of matched) {
+      increment(patterns, pattern);
+      let ev = evidence.get(pattern);
+      if (!ev) {
+        ev = { firstMs: Number.POSITIVE_INFINITY, lines: [] };
+        evidence.set(pattern, ev);
+      }
+      if (Number.isFinite(at) && at < ev.firstMs) ev.firstMs = at;
+      if (ev.lines.length < EVIDENCE_LINES) {
+        ev.lines.push({ source: rec.source, lineNo: rec.lineNo, line: rec.line });
+      }
+    }
+    if (matched.size && Number.isFinite(at)) {
+      const key = Math.floor(at / 60_000);
+      let counts = patternMinutes.get(key);
+      if (!counts) {
+        counts = new Map();
+        patternMinutes.set(key, counts);
+      }
+      for (const pattern of matched) increment(counts, pattern);
+    }
+    templates.add(rec, failed, matched);
+    changes.add(rec);
+    const latencyMs = latency.add(rec, Number.isFinite(at) ? at : undefined);
+    slo.add(rec, Number.isFinite(at) ? at : undefined, failed, latencyMs);
+
+    if (sampleLines.length < 10) {
+      sampleLines.push(rec.source ? `[${rec.source}] ${rec.line}` : rec.line);
+    }
+  }
+
+  function patternsIn(startMs: number, endMs: number) {
+    const from = Math.floor(startMs / 60_000);
+    const to = Math.ceil(endMs / 60_000);
+    const counts = new Map<string, number>();
+    for (const [minute, perPattern] of patternMinutes) {
+      if (minute < from || minute >= to) continue;
+      for (const [pattern, n] of perPattern) increment(counts, pattern, n);
+    }
+    return [...counts.entries()]
+      .map(([pattern, count]) => ({ pattern, count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  function finish(extraSignals: Record<string, number | string> = {}): Incident {
+    const errorRatePct =
+      logLines > 0 ? Math.round((errors / logLines) * 1000) / 10 : 0;
+
+    // top patterns list
+    const topPatterns = Array.from(patterns.entries())
+      .map(([pattern, count]) => ({ pattern, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 6);
+
+    const series = buildSeries(minutes);
+    const latencySummary = latency.finish();
+
+    const derivedSignals: Record<string, number | string> = {
+      log_lines: logLines,
+      errors,
+      warns,
+      infos,
+      timeouts,
+      http_5xx: http5xx,
+      error_rate_pct: errorRatePct,
+      ...(latencySummary && {
+        latency_p50_ms: latencySummary.p50,
+        latency_p95_ms: latencySummary.p95,
+        latency_p99_ms: latencySummary.p99,
+        latency_max_ms: latencySummary.max,
+      }),
+      ...extraSignals,
+    };
+
+    return {
+      sourceFormat,
+      ruleVersion: ruleSet.version,
+      serviceGuess: mostCommon(services, "BTP Service (unknown)"),
+      regionGuess: mostCommon(regions, "unknown"),
+      timeWindow: Number.isFinite(minMs)
+        ? { start: new Date(minMs).toISOString(), end: new Date(maxMs).toISOString() }
+        : {},
+      topPatterns,
+      sampleLines: [...sampleLines],
+      derivedSignals,
+      series,
+      breakdown: breakdown.finish(),
+      traces: traces.finish(),
+      templates: templates.finish(),
+      patternEvidence: topPatterns.map(({ pattern, count }) => {
+        const ev = evidence.get(pattern);
+        return {
+          pattern,
+          count,
+          firstSeen:
+            ev && Number.isFinite(ev.firstMs) ? new Date(ev.firstMs).toISOString() : undefined,
+          lines: ev?.lines ?? [],
+        };
+      }),
+      changeEvents: changes.finish(),
+      blastRadius: blast.finish(),
+      sloSeries: slo.finish(),
+      latency: latencySummary,
+      anomalies: detectAnomalies(series, {
+        patternsIn,
+        templatesIn: templates.failingIn,
+      }),
+    };
+  }
+
+  return { add, finish };
+}
+
+export function buildIncident(
+  records: LogRecord[],
+  sourceFormat: SourceFormat,
+  ruleSet: RuleSet,
+  extraSignals: Record<string, number | string> = {}
+): Incident {
+  const acc = createSignalAccumulator(sourceFormat, ruleSet);
+  for (const rec of records) acc.add(rec);
+  return acc.finish(extraSignals);
+}
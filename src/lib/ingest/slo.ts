@@ -0,0 +1,88 @@
+import type { SloDefinition } from "../rules/types";
+import { bucketStep } from "./series";
+import type { LogRecord, SloSeries } from "./types";
+
+// per-minute resolution up to this span; longer uploads use the series bucket size
+const MAX_MINUTE_SPAN = 14 * 1440;
+
+type Counts = { requests: number; badRequests: number; lines: number; badLines: number };
+
+/**
+ * Good/bad event counts per SLO and epoch minute, so analyze can evaluate
+ * burn rates over any window without the raw lines.
+ */
+export function createSloAccumulator(slos: SloDefinition[]) {
+  const minutes = new Map<string, Map<number, Counts>>(slos.map((s) => [s.id, new Map()]));
+
+  function add(rec: LogRecord, at: number | undefined, failed: boolean, latencyMs?: number) {
+    if (at === undefined) return;
+    const minute = Math.floor(at / 60_000);
+
+    for (const slo of slos) {
+      if (slo.service && rec.service !== slo.service) continue;
+      const perMinute = minutes.get(slo.id)!;
+      let c = perMinute.get(minute);
+      if (!c) {
+        c = { requests: 0, badRequests: 0, lines: 0, badLines: 0 };
+        perMinute.set(minute, c);
+      }
+
+      if (slo.kind === "latency") {
+        if (latencyMs === undefined) continue;
+        c.requests++;
+        if (latencyMs > (slo.thresholdMs ?? Infinity)) c.badRequests++;
+        continue;
+      }
+      c.lines++;
+      if (failed) c.badLines++;
+      if (rec.httpStatus !== undefined) {
+        c.requests++;
+        if (rec.httpStatus >= 500) c.badRequests++;
+      }
+    }
+  }
+
+  function finish(): SloSeries[] {
+    const out: SloSeries[] = [];
+    for (const slo of slos) {
+      const perMinute = minutes.get(slo.id)!;
+      let requests = 0;
+      let lines = 0;
+      for (const c of perMinute.values()) {
+        requests += c.requests;
+        lines += c.lines;
+      }
+      // without any HTTP statuses, availability falls back to failing lines
+      const events: SloSeries["events"] =
+        slo.kind === "latency" ? "latency" : requests ? "requests" : "lines";
+      if (!(events === "lines" ? lines : requests)) continue;
+
+      const keys = [...perMinute.keys()].sort((a, b) => a - b);
+      const first = keys[0];
+      const last = keys[keys.length - 1];
+      const step = last - first + 1 <= MAX_MINUTE_SPAN ? 1 : bucketStep(first, last);
+      const firstIdx = Math.floor(first / step);
+      const size = Math.floor(last / step) - firstIdx + 1;
+      const total = new Array<number>(size).fill(0);
+      const bad = new Array<number>(size).fill(0);
+
+      for (const [minute, c] of perMinute) {
+        const i = Math.floor(minute / step) - firstIdx;
+        total[i] += events === "lines" ? c.lines : c.requests;
+        bad[i] += events === "lines" ? c.badLines : c.badRequests;
+      }
+
+      out.push({
+        id: slo.id,
+        events,
+        start: new Date(firstIdx * step * 60_000).toISOString(),
+        stepMinutes: step,
+        total,
+        bad,
+      });
+    }
+    return out;
+  }
+
+  return { add, finish };
+}
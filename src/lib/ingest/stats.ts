@@ -0,0 +1,58 @@
+export function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  const idx = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, idx)];
+}
+
+/**
+ * Like percentile, for samples that each stand for `weight` values (say, one
+ * of a reservoir's samples for the requests it had to drop).
+ */
+export function weightedPercentile(sorted: Array<{ value: number; weight: number }>, p: number) {
+  if (!sorted.length) return 0;
+  const rank = (p / 100) * sorted.reduce((sum, s) => sum + s.weight, 0);
+  let seen = 0;
+  for (const s of sorted) {
+    seen += s.weight;
+    if (seen >= rank) return s.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Fixed-size uniform sample (Algorithm R) so percentile estimates stay
+ * bounded in memory on multi-million line uploads.
+ */
+export function createReservoir(size = 10000) {
+  const values: number[] = [];
+  let seen = 0;
+
+  return {
+    add(v: number) {
+      seen++;
+      if (values.length < size) values.push(v);
+      else {
+        const j = Math.floor(Math.random() * seen);
+        if (j < size) values[j] = v;
+      }
+    },
+    count: () => seen,
+    sorted: () => [...values].sort((a, b) => a - b),
+  };
+}
+
+export function increment<K>(map: Map<K, number>, key: K, by = 1) {
+  map.set(key, (map.get(key) ?? 0) + by);
+}
+
+export function mostCommon(counts: Map<string, number>, fallback: string) {
+  let best = "";
+  let bestCount = 0;
+  for (const [k, c] of counts.entries()) {
+    if (c > bestCount) {
+      best = k;
+      bestCount = c;
+    }
+  }
+  return best || fallback;
+}
@@ -0,0 +1,91 @@
+import type { RuleSet } from "../rules/match";
+import { createWindowTest, EMPTY_SPLIT_ERROR, toBaseline, type TimeRange } from "./baseline";
+import { createCfSignalAccumulator } from "./cf";
+import type { CsvOptions } from "./csv";
+import { createLogParser } from "./parse";
+import { createSignalAccumulator } from "./signals";
+import type { Incident, LogRecord } from "./types";
+
+export type StreamProgress = { lines: number; bytes: number };
+
+export type StreamOptions = {
+  ruleSet: RuleSet;
+  format?: string;
+  csv?: Partial<CsvOptions>;
+  timeZone?: string;
+  // lines in this window become the baseline instead of the incident
+  baselineWindow?: TimeRange;
+  onProgress?: (p: StreamProgress) => void;
+};
+
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Ingest over a byte stream, parsed by the same parser as /api/ingest.
+ * Memory is bounded by the signal accumulators plus the parser's format
+ * sample, not by the upload size.
+ */
+export async function ingestStream(
+  body: ReadableStream<Uint8Array>,
+  opts: StreamOptions
+): Promise<Incident> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+
+  // the source format is only known once the parser has seen enough input
+  const acc = createSignalAccumulator("text", opts.ruleSet);
+  const cfAcc = createCfSignalAccumulator();
+  const baseAcc = createSignalAccumulator("text", opts.ruleSet);
+  const baseCfAcc = createCfSignalAccumulator();
+
+  let lines = 0;
+  let baselineLines = 0;
+  let bytes = 0;
+  let lastProgress = 0;
+
+  const tz = opts.timeZone;
+  const inBaseline = opts.baselineWindow
+    ? createWindowTest(opts.baselineWindow, tz)
+    : null;
+
+  const parser = createLogParser(opts, (rec: LogRecord) => {
+    lines++;
+    if (inBaseline?.(rec)) {
+      baselineLines++;
+      baseAcc.add(rec);
+      baseCfAcc.add(rec);
+      return;
+    }
+    acc.add(rec);
+    cfAcc.add(rec);
+  });
+
+  function progress(force = false) {
+    const now = Date.now();
+    if (!opts.onProgress || (!force && now - lastProgress < PROGRESS_INTERVAL_MS)) return;
+    lastProgress = now;
+    opts.onProgress({ lines, bytes });
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+    progress();
+  }
+
+  parser.push(decoder.decode());
+  parser.end();
+  progress(true);
+
+  const sourceFormat = parser.format();
+  const cf = sourceFormat === "cf";
+  const incident = { ...acc.finish(cf ? cfAcc.finish() : undefined), sourceFormat };
+  if (!inBaseline || !lines) return incident;
+  // same rule as /api/ingest: both sides of the split need lines
+  if (!baselineLines || baselineLines === lines) throw new Error(EMPTY_SPLIT_ERROR);
+
+  const baseline = { ...baseAcc.finish(cf ? baseCfAcc.finish() : undefined), sourceFormat };
+  return { ...incident, baseline: toBaseline(baseline, "window") };
+}
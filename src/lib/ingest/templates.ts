@@ -0,0 +1,167 @@
+import type { LogRecord, LogTemplate } from "./types";
+
+/*
+ * Drain-style template mining: mask obvious variables, bucket messages by
+ * token count and first token, then merge each message into the most similar
+ * cluster in its bucket, wildcarding the positions that differ.
+ */
+const MASKS: Array<[RegExp, string]> = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, "<TS>"],
+  [/\b[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}\b/gi, "<UUID>"],
+  [/\b[a-z][a-z\d+.-]*:\/\/[^\s"']+/gi, "<URL>"],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, "<IP>"],
+  [/\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g, "<EMAIL>"],
+  [/\b(?=[\da-f]*\d)(?=[\da-f]*[a-f])[\da-f]{8,}\b/gi, "<HEX>"],
+  [/(?<![\w<])-?\d+(?:\.\d+)?(?:ms|s|kb|mb|gb|%)?\b/gi, "<NUM>"],
+];
+const WILDCARD = "<*>";
+const SIMILARITY = 0.5;
+const MAX_TOKENS = 60;
+const MAX_CLUSTERS = 2000;
+const RETURNED_TEMPLATES = 12;
+// per-cluster minutes with failures kept for anomaly windows
+const MAX_FAILURE_MINUTES = 1440;
+
+/** Replaces ids, numbers, UUIDs, URLs and similar variable parts with placeholders. */
+export function maskMessage(line: string) {
+  let out = line;
+  for (const [re, token] of MASKS) out = out.replace(re, token);
+  return out.trim();
+}
+
+type Cluster = {
+  tokens: string[];
+  count: number;
+  failures: number;
+  firstMs: number;
+  lastMs: number;
+  example: string;
+  exampleSource?: string;
+  exampleLineNo?: number;
+  patterns: Set<string>;
+  // failing lines per epoch minute
+  failureMinutes: Map<number, number>;
+};
+
+function similarity(a: string[], b: string[]) {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i] || a[i] === WILDCARD) same++;
+  return same / a.length;
+}
+
+function isVariable(token: string) {
+  return token.startsWith("<") && token.endsWith(">");
+}
+
+export function createTemplateMiner() {
+  const groups = new Map<string, Cluster[]>();
+  let clusters = 0;
+
+  function add(rec: LogRecord, failed: boolean, patterns: Iterable<string>) {
+    const tokens = maskMessage(rec.line).split(/\s+/).slice(0, MAX_TOKENS);
+    if (!tokens[0]) return;
+    const key = `${tokens.length}|${isVariable(tokens[0]) ? WILDCARD : tokens[0]}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = [];
+      groups.set(key, group);
+    }
+
+    let best: Cluster | undefined;
+    let bestScore = 0;
+    for (const c of group) {
+      const score = similarity(c.tokens, tokens);
+      if (score > bestScore) {
+        best = c;
+        bestScore = score;
+      }
+    }
+
+    const at = rec.timestamp ? Date.parse(rec.timestamp) : NaN;
+    if (!best || bestScore < SIMILARITY) {
+      if (clusters >= MAX_CLUSTERS) return;
+      best = {
+        tokens,
+        count: 0,
+        failures: 0,
+        firstMs: Infinity,
+        lastMs: -Infinity,
+        example: rec.line,
+        exampleSource: rec.source,
+        exampleLineNo: rec.lineNo,
+        patterns: new Set(),
+        failureMinutes: new Map(),
+      };
+      group.push(best);
+      clusters++;
+    } else {
+      best.tokens = best.tokens.map((t, i) => (t === tokens[i] ? t : WILDCARD));
+    }
+
+    best.count++;
+    if (failed) {
+      // prefer a failing line as the example
+      if (!best.failures) {
+        best.example = rec.line;
+        best.exampleSource = rec.source;
+        best.exampleLineNo = rec.lineNo;
+      }
+      best.failures++;
+      const minute = Math.floor(at / 60_000);
+      if (
+        Number.isFinite(minute) &&
+        (best.failureMinutes.has(minute) || best.failureMinutes.size < MAX_FAILURE_MINUTES)
+      ) {
+        best.failureMinutes.set(minute, (best.failureMinutes.get(minute) ?? 0) + 1);
+      }
+    }
+    if (Number.isFinite(at)) {
+      best.firstMs = Math.min(best.firstMs, at);
+      best.lastMs = Math.max(best.lastMs, at);
+    }
+    for (const p of patterns) best.patterns.add(p);
+  }
+
+  function toTemplate(c: Cluster): LogTemplate {
+    return {
+      template: c.tokens.join(" "),
+      count: c.count,
+      failures: c.failures,
+      firstSeen: Number.isFinite(c.firstMs) ? new Date(c.firstMs).toISOString() : undefined,
+      lastSeen: Number.isFinite(c.lastMs) ? new Date(c.lastMs).toISOString() : undefined,
+      example: c.example,
+      exampleSource: c.exampleSource,
+      exampleLineNo: c.exampleLineNo,
+      patterns: [...c.patterns],
+    };
+  }
+
+  /** Templates by failing lines between two epoch-ms times. */
+  function failingIn(startMs: number, endMs: number) {
+    const from = Math.floor(startMs / 60_000);
+    const to = Math.ceil(endMs / 60_000);
+    const out: Array<{ template: string; count: number }> = [];
+    for (const c of [...groups.values()].flat()) {
+      let count = 0;
+      for (const [minute, n] of c.failureMinutes) if (minute >= from && minute < to) count += n;
+      if (count) out.push({ template: c.tokens.join(" "), count });
+    }
+    return out.sort((a, b) => b.count - a.count);
+  }
+
+  /** Most frequent templates, plus the top failing ones if they rank lower. */
+  function finish(): LogTemplate[] {
+    const all = [...groups.values()].flat();
+    const byCount = [...all].sort((a, b) => b.count - a.count).slice(0, RETURNED_TEMPLATES);
+    const byFailures = all
+      .filter((c) => c.failures > 0)
+      .sort((a, b) => b.failures - a.failures)
+      .slice(0, 5);
+    return [...new Set([...byFailures, ...byCount])]
+      .sort((a, b) => b.failures - a.failures || b.count - a.count)
+      .map(toTemplate);
+  }
+
+  return { add, finish, failingIn };
+}
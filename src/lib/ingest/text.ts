@@ -0,0 +1,40 @@
+import { findTimestamp } from "./time";
+import type { LogRecord } from "./types";
+
+export function parseKeyVals(line: string) {
+  // captures key=value tokens (value may be quoted)
+  const kv: Record<string, string> = {};
+  const re = /(\w+)=(".*?"|[^\s]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(line)) !== null) {
+    const key = m[1];
+    let val = m[2] ?? "";
+    if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1);
+    kv[key] = val;
+  }
+  return kv;
+}
+
+export function parseTextLine(line: string, timeZone?: string): LogRecord {
+  const upper = line.toUpperCase();
+  const kv = parseKeyVals(line);
+
+  const hs = kv.httpStatus ?? kv.status;
+  const hsNum = hs ? Number(hs) : NaN;
+
+  return {
+    line,
+    level: upper.includes(" ERROR ")
+      ? "ERROR"
+      : upper.includes(" WARN ")
+        ? "WARN"
+        : upper.includes(" INFO ")
+          ? "INFO"
+          : undefined,
+    service: kv.service || undefined,
+    region: kv.region || undefined,
+    timestamp: findTimestamp(line, timeZone),
+    httpStatus: Number.isNaN(hsNum) ? undefined : hsNum,
+    fields: kv,
+  };
+}
@@ -0,0 +1,148 @@
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+// 2026-01-06T13:01:02.114Z, 2026-01-06 13:01:02,114 +02:00, 2026-01-06T13:01:02.11+0000 (cf logs),
+// 2026-01-06T13:01 (<input type="datetime-local">)
+const ISO_RE =
+  /(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?\s?(Z|[+-]\d{2}:?\d{2}\b)?/;
+// access logs: [06/Jan/2026:13:01:02 +0000]
+const CLF_RE =
+  /(\d{2})\/(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\/(\d{4}):(\d{2}):(\d{2}):(\d{2})\s([+-]\d{4})/;
+// RFC 3164 syslog: "Jan  6 13:01:02" (no year, no zone)
+const SYSLOG_RE =
+  /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{1,2})\s(\d{2}):(\d{2}):(\d{2})\b/;
+// epoch seconds / millis behind a time-like key, or leading the line
+const EPOCH_KEY_RE =
+  /\b(?:ts|time|timestamp|epoch|written_ts)["']?\s*[=:]\s*"?(\d{10,19})(?:\.\d+)?\b/;
+const LEADING_EPOCH_RE = /^(\d{10}|\d{13})(?:\.\d+)?\b/;
+
+// 2000-01-01 .. 2100-01-01 in seconds, to reject ids that look like epochs
+const EPOCH_MIN_S = 946684800;
+const EPOCH_MAX_S = 4102444800;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function tzOffsetMs(utcMs: number, tz: string) {
+  let dtf = formatters.get(tz);
+  if (!dtf) {
+    dtf = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(tz, dtf);
+  }
+  const p: Record<string, number> = {};
+  for (const part of dtf.formatToParts(new Date(utcMs))) p[part.type] = Number(part.value);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+/** Wall-clock time in `tz` to epoch millis (UTC when no zone is given). */
+function zonedToUtc(
+  y: number, mo: number, d: number, h: number, mi: number, s: number, ms: number,
+  tz?: string
+) {
+  const naive = Date.UTC(y, mo, d, h, mi, s, ms);
+  if (!tz || tz === "UTC") return naive;
+  // two passes settle DST transitions
+  const first = naive - tzOffsetMs(naive, tz);
+  return naive - tzOffsetMs(first, tz);
+}
+
+function offsetMs(offset: string) {
+  if (offset === "Z") return 0;
+  const m = offset.match(/([+-])(\d{2}):?(\d{2})/);
+  if (!m) return 0;
+  const mins = Number(m[2]) * 60 + Number(m[3]);
+  return (m[1] === "-" ? -1 : 1) * mins * 60_000;
+}
+
+function fractionMs(frac?: string) {
+  return frac ? Number(frac.slice(0, 3).padEnd(3, "0")) : 0;
+}
+
+function epochToMs(digits: string) {
+  // seconds, or the millisecond prefix of ms / µs / ns values
+  const ms =
+    digits.length <= 10 ? Number(digits) * 1000 : Number(digits.slice(0, 13));
+  return ms >= EPOCH_MIN_S * 1000 && ms <= EPOCH_MAX_S * 1000 ? ms : undefined;
+}
+
+function syslogYear(month: number, day: number) {
+  // RFC 3164 has no year: assume the latest one that is not in the future
+  const now = new Date();
+  const year = now.getUTCFullYear();
+  return Date.UTC(year, month, day) > now.getTime() + 86_400_000 ? year - 1 : year;
+}
+
+function toIso(ms: number | undefined) {
+  return ms !== undefined && Number.isFinite(ms) ? new Date(ms).toISOString() : undefined;
+}
+
+/**
+ * Finds the first timestamp in a log line and returns it as UTC ISO-8601.
+ * Timestamps without an offset are read in `tz` (an IANA zone, default UTC).
+ */
+export function findTimestamp(line: string, tz?: string) {
+  let m = line.match(ISO_RE);
+  if (m) {
+    const [, y, mo, d, h, mi, sec, frac, off] = m;
+    const s = sec ?? "0";
+    const ms = fractionMs(frac);
+    if (off) {
+      return toIso(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, ms) - offsetMs(off));
+    }
+    return toIso(zonedToUtc(+y, +mo - 1, +d, +h, +mi, +s, ms, tz));
+  }
+
+  m = line.match(CLF_RE);
+  if (m) {
+    const [, d, mon, y, h, mi, s, off] = m;
+    const month = MONTHS[mon.toLowerCase()];
+    return toIso(Date.UTC(+y, month, +d, +h, +mi, +s) - offsetMs(off));
+  }
+
+  m = line.match(SYSLOG_RE);
+  if (m) {
+    const [, mon, d, h, mi, s] = m;
+    const month = MONTHS[mon.toLowerCase()];
+    return toIso(zonedToUtc(syslogYear(month, +d), month, +d, +h, +mi, +s, 0, tz));
+  }
+
+  m = line.match(EPOCH_KEY_RE) ?? line.match(LEADING_EPOCH_RE);
+  if (m) return toIso(epochToMs(m[1]));
+
+  return undefined;
+}
+
+/** Parses a dedicated timestamp field (JSON / CSV), including bare epochs. */
+export function parseTimestamp(value: string | undefined, tz?: string) {
+  const v = (value ?? "").trim();
+  if (!v) return undefined;
+
+  const epoch = v.match(/^(\d{10,19})(?:\.\d+)?$/);
+  if (epoch) return toIso(epochToMs(epoch[1]));
+
+  const found = findTimestamp(v, tz);
+  if (found) return found;
+
+  // anything else Date understands, e.g. RFC 2822
+  return toIso(Date.parse(v));
+}
@@ -0,0 +1,165 @@
+import { UNKNOWN_KEY } from "./breakdown";
+import { increment, percentile } from "./stats";
+import type { LogRecord, Trace, TraceLine, TraceSummary } from "./types";
+
+// checked in order; traceparent is reduced to its trace-id part
+const CORRELATION_KEYS = [
+  "correlation_id",
+  "correlationId",
+  "x_correlation_id",
+  "x_correlationid",
+  "x_vcap_request_id",
+  "vcap_request_id",
+  "request_id",
+  "traceparent",
+  "trace_id",
+  "traceId",
+];
+const TRACEPARENT_RE = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/i;
+
+const MAX_TRACES = 5000;
+const MAX_TRACE_LINES = 50;
+// traces returned in full; the rest only feed the aggregates
+const RETURNED_TRACES = 50;
+
+/** The request correlation id of a record, if it carries one. */
+export function correlationKey(rec: Pick<LogRecord, "fields">) {
+  for (const key of CORRELATION_KEYS) {
+    const v = rec.fields[key]?.trim();
+    if (!v || v === "-" || v === "null") continue;
+    return v.match(TRACEPARENT_RE)?.[1].toLowerCase() ?? v;
+  }
+  return undefined;
+}
+
+// `seq` is the ingest order, which breaks ties between lines with the same time
+type OpenTrace = { lines: Array<TraceLine & { at: number; seq: number }>; lineCount: number };
+
+/** Groups records into request traces by correlation id. */
+export function createTraceAccumulator() {
+  const open = new Map<string, OpenTrace>();
+  let seq = 0;
+  let truncated = false;
+
+  function add(rec: LogRecord, failed: boolean) {
+    seq++;
+    const id = correlationKey(rec);
+    if (!id) return;
+
+    let trace = open.get(id);
+    if (!trace) {
+      if (open.size >= MAX_TRACES) {
+        truncated = true;
+        return;
+      }
+      trace = { lines: [], lineCount: 0 };
+      open.set(id, trace);
+    }
+    trace.lineCount++;
+    if (trace.lines.length < MAX_TRACE_LINES) {
+      const at = rec.timestamp ? Date.parse(rec.timestamp) : NaN;
+      trace.lines.push({
+        source: rec.source,
+        lineNo: rec.lineNo,
+        line: rec.line,
+        service: rec.service,
+        timestamp: rec.timestamp,
+        failed,
+        at,
+        seq,
+      });
+    }
+  }
+
+  function build(id: string, { lines, lineCount }: OpenTrace): Trace {
+    const sorted = [...lines].sort(
+      (a, b) =>
+        (Number.isFinite(a.at) && Number.isFinite(b.at) ? a.at - b.at : 0) ||
+        a.seq - b.seq
+    );
+    const times = sorted.map((l) => l.at).filter(Number.isFinite);
+    const start = times.length ? Math.min(...times) : undefined;
+    const end = times.length ? Math.max(...times) : undefined;
+
+    // a hop is a run of consecutive lines from the same service
+    const services: string[] = [];
+    let hops = 0;
+    let prev: string | undefined;
+    let firstFailure: Trace["firstFailure"];
+    for (const l of sorted) {
+      const service = l.service || UNKNOWN_KEY;
+      if (service !== prev) {
+        hops++;
+        prev = service;
+        if (!services.includes(service)) services.push(service);
+      }
+      if (l.failed && !firstFailure) {
+        firstFailure = { hop: hops, service, source: l.source, lineNo: l.lineNo };
+      }
+    }
+
+    return {
+      id,
+      start: start !== undefined ? new Date(start).toISOString() : undefined,
+      end: end !== undefined ? new Date(end).toISOString() : undefined,
+      durationMs: start !== undefined && end !== undefined ? end - start : undefined,
+      hops,
+      services,
+      failed: !!firstFailure,
+      firstFailure,
+      lineCount,
+      lines: sorted.map((l) => ({
+        source: l.source,
+        lineNo: l.lineNo,
+        line: l.line,
+        service: l.service,
+        timestamp: l.timestamp,
+        failed: l.failed,
+      })),
+    };
+  }
+
+  function finish(): TraceSummary {
+    const traces = [...open.entries()].map(([id, t]) => build(id, t));
+    const failed = traces.filter((t) => t.failed);
+
+    const firstFailures = new Map<string, number>();
+    for (const t of failed) increment(firstFailures, t.firstFailure!.service);
+
+    // single-line traces have no meaningful duration
+    const durations = traces
+      .filter((t) => t.lineCount > 1 && t.durationMs !== undefined)
+      .map((t) => t.durationMs as number)
+      .sort((a, b) => a - b);
+
+    // failed multi-hop traces first, then the slowest
+    const returned = [...traces]
+      .sort(
+        (a, b) =>
+          Number(b.failed) - Number(a.failed) ||
+          Number(b.hops > 1) - Number(a.hops > 1) ||
+          (b.durationMs ?? 0) - (a.durationMs ?? 0)
+      )
+      .slice(0, RETURNED_TRACES);
+
+    return {
+      total: traces.length,
+      failed: failed.length,
+      truncated,
+      avgDurationMs: durations.length
+        ? Math.round(durations.reduce((s, d) => s + d, 0) / durations.length)
+        : undefined,
+      p95DurationMs: durations.length ? percentile(durations, 95) : undefined,
+      firstFailureByService: [...firstFailures.entries()]
+        .map(([service, count]) => ({
+          service,
+          count,
+          pct: Math.round((count / failed.length) * 1000) / 10,
+        }))
+        .sort((a, b) => b.count - a.count),
+      traces: returned,
+    };
+  }
+
+  return { add, finish };
+}
@@ -0,0 +1,255 @@
+export type LogLevel = "ERROR" | "WARN" | "INFO" | "DEBUG";
+
+export type SourceFormat = "text" | "json" | "csv" | "cf" | "mixed";
+
+/** One parsed log entry, normalised across input formats. */
+export type LogRecord = {
+  // human-readable line used for samples and pattern matching
+  line: string;
+  level?: LogLevel;
+  service?: string;
+  region?: string;
+  timestamp?: string;
+  httpStatus?: number;
+  // file name when the upload was a multi-file bundle
+  source?: string;
+  // 1-based line in that file (or the pasted text) where the entry starts
+  lineNo?: number;
+  fields: Record<string, string>;
+};
+
+export type SeriesBucket = {
+  // bucket start, UTC ISO-8601
+  start: string;
+  lines: number;
+  errors: number;
+  warns: number;
+  timeouts: number;
+  http5xx: number;
+};
+
+export type SignalSeries = {
+  // 1 (per-minute) unless the window is too long for 1440 buckets
+  bucketMinutes: number;
+  buckets: SeriesBucket[];
+};
+
+export type BreakdownCounts = {
+  lines: number;
+  errors: number;
+  timeouts: number;
+  http5xx: number;
+  // lines that were an error, a timeout or a 5xx (each line counted once)
+  failures: number;
+  firstFailureAt?: string;
+};
+
+export type BreakdownRow = BreakdownCounts & {
+  service?: string;
+  region?: string;
+  // per service only: the line behind firstFailureAt
+  firstFailure?: EvidenceLine;
+};
+
+export type Breakdown = {
+  byService: BreakdownRow[];
+  byRegion: BreakdownRow[];
+  byServiceRegion: BreakdownRow[];
+};
+
+// where the line is in its source, like the evidence lines
+export type TraceLine = EvidenceLine & {
+  service?: string;
+  timestamp?: string;
+  failed: boolean;
+};
+
+/** Lines sharing one correlation id, ordered by time. */
+export type Trace = {
+  id: string;
+  start?: string;
+  end?: string;
+  durationMs?: number;
+  hops: number;
+  services: string[];
+  failed: boolean;
+  firstFailure?: { hop: number; service: string; source?: string; lineNo?: number };
+  lineCount: number;
+  lines: TraceLine[];
+};
+
+export type TraceSummary = {
+  total: number;
+  failed: number;
+  // true when more ids were seen than could be tracked
+  truncated: boolean;
+  avgDurationMs?: number;
+  p95DurationMs?: number;
+  firstFailureByService: Array<{ service: string; count: number; pct: number }>;
+  traces: Trace[];
+};
+
+/** A mined message template; variable tokens are masked as <*>, <NUM>, <UUID>, ... */
+export type LogTemplate = {
+  template: string;
+  count: number;
+  failures: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  example: string;
+  exampleSource?: string;
+  exampleLineNo?: number;
+  // rule catalog patterns that matched lines of this template
+  patterns: string[];
+};
+
+/**
+ * A log line cited as evidence, with the bundle file it came from and its
+ * 1-based line there, when known.
+ */
+export type EvidenceLine = { source?: string; lineNo?: number; line: string };
+
+/** When a rule pattern first fired and the first lines it fired on. */
+export type PatternEvidence = {
+  pattern: string;
+  count: number;
+  firstSeen?: string;
+  lines: EvidenceLine[];
+};
+
+/** Distinct values of one dimension seen overall and on failing lines. */
+export type BlastDimension = {
+  total: number;
+  affected: number;
+  // more distinct values than were tracked; counts are lower bounds
+  truncated: boolean;
+  top: Array<{ key: string; failures: number; lines: number }>;
+};
+
+export type BlastRadius = {
+  tenants: BlastDimension;
+  subaccounts: BlastDimension;
+  routes: BlastDimension;
+  methods: BlastDimension;
+  clients: BlastDimension;
+};
+
+/** Good/bad event counts for one SLO, per step from `start`. */
+export type SloSeries = {
+  id: string;
+  // requests: lines with an HTTP status; lines: any line, failures as bad (no statuses seen)
+  events: "requests" | "lines" | "latency";
+  start: string;
+  stepMinutes: number;
+  total: number[];
+  bad: number[];
+};
+
+/** Latency percentiles in milliseconds. */
+export type LatencyStats = {
+  count: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+};
+
+// key is a service name or a templated "METHOD /route/:id"
+export type LatencyRow = LatencyStats & { key: string };
+
+export type LatencyPoint = {
+  start: string;
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+};
+
+export type LatencySummary = LatencyStats & {
+  byService: LatencyRow[];
+  byRoute: LatencyRow[];
+  // same bucket size as the signal series; only buckets with samples
+  bucketMinutes: number;
+  series: LatencyPoint[];
+  // worst bucket p95 against the median bucket p95, when clearly above it
+  regression?: { start: string; p95: number; normalP95: number; multiple: number };
+  // slowest lines, slowest first
+  slowest?: EvidenceLine[];
+};
+
+/** A deployment, restage, config change or similar event that may have triggered failures. */
+export type ChangeEvent = {
+  at: string;
+  type: string;
+  target?: string;
+  actor?: string;
+  description?: string;
+  source: "audit" | "deployments" | "logs";
+  // where a change announced in the logs was found
+  file?: string;
+  lineNo?: number;
+};
+
+/** A stretch of the series where failures spiked or shifted to a higher level. */
+export type AnomalyWindow = {
+  kind: "spike" | "shift";
+  start: string;
+  end: string;
+  // failures (errors + timeouts + 5xx) per bucket in the window vs. normal
+  magnitude: number;
+  normalLevel: number;
+  peak: number;
+  // sum of failures above the normal level, used to rank windows
+  excess: number;
+  signals: { lines: number; errors: number; timeouts: number; http5xx: number };
+  dominantPatterns: Array<{ pattern: string; count: number }>;
+  dominantTemplates: Array<{ template: string; count: number }>;
+};
+
+/** Reference signals from a known-normal window, compared against the incident. */
+export type BaselineSnapshot = {
+  source: "upload" | "window";
+  timeWindow: { start?: string; end?: string };
+  derivedSignals: Record<string, number | string>;
+  topPatterns: Array<{ pattern: string; count: number }>;
+  templates: Array<Pick<LogTemplate, "template" | "count" | "failures">>;
+};
+
+/** Signals for one file of a multi-file bundle. */
+export type SourceBreakdown = {
+  name: string;
+  sourceFormat: SourceFormat;
+  serviceGuess: string;
+  regionGuess: string;
+  timeWindow: { start?: string; end?: string };
+  topPatterns: Array<{ pattern: string; count: number }>;
+  derivedSignals: Record<string, number | string>;
+};
+
+export type Incident = {
+  sourceFormat: SourceFormat;
+  // rule catalog version that produced topPatterns
+  ruleVersion: string;
+  serviceGuess: string;
+  regionGuess: string;
+  timeWindow: { start?: string; end?: string };
+  topPatterns: Array<{ pattern: string; count: number }>;
+  sampleLines: string[];
+  derivedSignals: Record<string, number | string>;
+  series: SignalSeries;
+  breakdown: Breakdown;
+  traces: TraceSummary;
+  templates: LogTemplate[];
+  patternEvidence: PatternEvidence[];
+  // change events spotted in the logs themselves
+  changeEvents: ChangeEvent[];
+  blastRadius: BlastRadius;
+  // one entry per SLO in the rule set that saw events
+  sloSeries: SloSeries[];
+  // only present when some lines carried a duration
+  latency?: LatencySummary;
+  anomalies: AnomalyWindow[];
+  baseline?: BaselineSnapshot;
+  sources?: SourceBreakdown[];
+};
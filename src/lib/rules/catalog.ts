@@ -0,0 +1,327 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { compileRules, type RuleSet } from "./match";
+import type {
+  BurnRateAlert,
+  PatternRule,
+  PostmortemSection,
+  PostmortemTemplate,
+  RuleCatalog,
+  RuleOverrides,
+  Runbook,
+  RunbookLibrary,
+  ScoreCondition,
+  ScoringPolicy,
+  SloConfig,
+  SloDefinition,
+} from "./types";
+
+const RULES_DIR = process.env.OPS_COPILOT_RULES_DIR ?? path.join(process.cwd(), "rules");
+const TEAM_RE = /^[a-z0-9_-]+$/i;
+// g and y would make RegExp.test() carry lastIndex from one line to the next
+const REGEX_FLAGS_RE = /^[imsu]*$/;
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(file, "utf8")) as T;
+}
+
+function validateRule(rule: Partial<PatternRule>, source: string): PatternRule {
+  const where = `${source}: rule "${rule.id ?? "?"}"`;
+  if (!rule.id) throw new Error(`Invalid rule catalog ${where} has no id`);
+  if (!rule.pattern) throw new Error(`Invalid rule catalog ${where} has no pattern`);
+  if (!Array.isArray(rule.match) || !rule.match.length) {
+    throw new Error(`Invalid rule catalog ${where} has no matchers`);
+  }
+  for (const m of rule.match) {
+    // a matcher without a condition would match every line
+    if (
+      !m ||
+      typeof m !== "object" ||
+      !(m.regex || m.equals !== undefined || Array.isArray(m.oneOf) || m.gte !== undefined || m.lte !== undefined)
+    ) {
+      throw new Error(`Invalid rule catalog ${where} has a matcher without regex, equals, oneOf, gte or lte`);
+    }
+    if (m.flags !== undefined && !(typeof m.flags === "string" && REGEX_FLAGS_RE.test(m.flags))) {
+      throw new Error(`Invalid rule catalog ${where} has regex flags other than i, m, s, u: ${m.flags}`);
+    }
+    if (m.regex) {
+      try {
+        new RegExp(m.regex, m.flags);
+      } catch {
+        throw new Error(`Invalid rule catalog ${where} has a bad regex: ${m.regex}`);
+      }
+    }
+  }
+  return {
+    id: rule.id,
+    pattern: rule.pattern,
+    description: rule.description,
+    match: rule.match,
+    severityWeight: Number(rule.severityWeight ?? 1),
+    rootCause: rule.rootCause ?? "",
+    actions: rule.actions ?? [],
+  };
+}
+
+function overridesFile(team: string) {
+  return path.join(RULES_DIR, "overrides", `${team}.json`);
+}
+
+/** Why `team` names no usable override file, or null when it does (or is unset). */
+export function teamError(team: string | undefined) {
+  if (!team) return null;
+  if (!TEAM_RE.test(team)) return `Invalid team name: ${team}`;
+  if (!existsSync(overridesFile(team))) return `No rule overrides for team "${team}"`;
+  return null;
+}
+
+function teamOverrides(team: string) {
+  const error = teamError(team);
+  if (error) throw new Error(error);
+  return readJson<RuleOverrides>(overridesFile(team));
+}
+
+/**
+ * Reads rules/catalog.json plus, when a team is given, rules/overrides/<team>.json.
+ * Files are read per call so edits apply without a restart.
+ */
+export function loadRuleCatalog(team = process.env.OPS_COPILOT_TEAM): RuleSet {
+  const base = readJson<RuleCatalog>(path.join(RULES_DIR, "catalog.json"));
+
+  let version = base.version;
+  let thresholds = { ...base.severityThresholds };
+  const rules = new Map<string, Partial<PatternRule>>(
+    base.rules.map((r) => [r.id, r])
+  );
+
+  if (team) {
+    const overrides = teamOverrides(team);
+    version = `${base.version}+${team}.${overrides.version}`;
+    thresholds = { ...thresholds, ...overrides.severityThresholds };
+    for (const o of overrides.rules ?? []) {
+      rules.set(o.id, { ...rules.get(o.id), ...o });
+    }
+    for (const id of overrides.disable ?? []) rules.delete(id);
+  }
+
+  return {
+    version,
+    severityThresholds: thresholds,
+    rules: compileRules(
+      [...rules.values()].map((r) => validateRule(r, team ? `${team} overrides` : "catalog"))
+    ),
+    slo: loadSloConfig(team),
+  };
+}
+
+function validateSlo(slo: SloDefinition, source: string) {
+  const where = `${source}: SLO "${slo.id ?? "?"}"`;
+  if (!slo.id) throw new Error(`Invalid SLO config ${where} has no id`);
+  if (slo.kind !== "availability" && slo.kind !== "latency") {
+    throw new Error(`Invalid SLO config ${where} has an unknown kind`);
+  }
+  if (slo.kind === "latency" && !(Number(slo.thresholdMs) > 0)) {
+    throw new Error(`Invalid SLO config ${where} needs a thresholdMs`);
+  }
+  if (!(slo.target > 0 && slo.target < 100)) {
+    throw new Error(`Invalid SLO config ${where} needs a target between 0 and 100`);
+  }
+  return { ...slo, windowDays: Number(slo.windowDays) || 30 };
+}
+
+function validateBurnRateAlert(alert: BurnRateAlert, source: string) {
+  const where = `${source}: burn-rate alert "${alert.id ?? "?"}"`;
+  const positive = (n: unknown) => Number.isFinite(Number(n)) && Number(n) > 0;
+  if (!alert.id) throw new Error(`Invalid SLO config ${where} has no id`);
+  if (alert.severity !== "page" && alert.severity !== "ticket") {
+    throw new Error(`Invalid SLO config ${where} has an unknown severity`);
+  }
+  if (!positive(alert.longWindowMinutes) || !positive(alert.shortWindowMinutes)) {
+    throw new Error(`Invalid SLO config ${where} needs longWindowMinutes and shortWindowMinutes`);
+  }
+  if (Number(alert.shortWindowMinutes) > Number(alert.longWindowMinutes)) {
+    throw new Error(`Invalid SLO config ${where} has a short window longer than its long window`);
+  }
+  if (!positive(alert.burnRate)) {
+    throw new Error(`Invalid SLO config ${where} needs a burnRate above 0`);
+  }
+  return {
+    ...alert,
+    longWindowMinutes: Number(alert.longWindowMinutes),
+    shortWindowMinutes: Number(alert.shortWindowMinutes),
+    burnRate: Number(alert.burnRate),
+  };
+}
+
+function mergeById<T extends { id: string }>(base: T[], overrides: T[] = []) {
+  const byId = new Map(base.map((x) => [x.id, x]));
+  for (const x of overrides) byId.set(x.id, { ...byId.get(x.id), ...x });
+  return [...byId.values()];
+}
+
+function validateRunbook(rb: Runbook, source: string) {
+  const where = `${source}: runbook "${rb.id ?? "?"}"`;
+  if (!rb.id || !rb.title) throw new Error(`Invalid runbook library ${where} needs an id and a title`);
+  if (!Array.isArray(rb.steps) || !rb.steps.length) {
+    throw new Error(`Invalid runbook library ${where} has no steps`);
+  }
+  const m = rb.match ?? {};
+  if (!m.patterns?.length && !m.services?.length && !m.severities?.length) {
+    throw new Error(`Invalid runbook library ${where} matches nothing`);
+  }
+  return { ...rb, match: m };
+}
+
+/** Reads rules/runbooks.json plus the team's runbooks; team runbooks replace by id. */
+export function loadRunbooks(team = process.env.OPS_COPILOT_TEAM): RunbookLibrary {
+  const file = path.join(RULES_DIR, "runbooks.json");
+  const base: RunbookLibrary = existsSync(file)
+    ? readJson<RunbookLibrary>(file)
+    : { version: "0", runbooks: [] };
+
+  const overrides = team ? teamOverrides(team) : undefined;
+  const byId = new Map(base.runbooks.map((rb) => [rb.id, rb]));
+  for (const rb of overrides?.runbooks ?? []) byId.set(rb.id, rb);
+  for (const id of overrides?.disableRunbooks ?? []) byId.delete(id);
+
+  const changed = !!(overrides?.runbooks?.length || overrides?.disableRunbooks?.length);
+  return {
+    version: overrides && changed ? `${base.version}+${team}.${overrides.version}` : base.version,
+    runbooks: [...byId.values()].map((rb) =>
+      validateRunbook(rb, changed ? `${team} overrides` : "runbooks.json")
+    ),
+  };
+}
+
+const POSTMORTEM_SOURCES = new Set([
+  "summary",
+  "impact",
+  "timeline",
+  "durations",
+  "root_cause",
+  "contributing_factors",
+  "went_well",
+  "went_badly",
+  "action_items",
+  "text",
+]);
+
+function validateSection(section: Partial<PostmortemSection>, source: string) {
+  const where = `${source}: section "${section.id ?? "?"}"`;
+  if (!section.id || !section.title) {
+    throw new Error(`Invalid postmortem template ${where} needs an id and a title`);
+  }
+  if (!section.source || !POSTMORTEM_SOURCES.has(section.source)) {
+    throw new Error(`Invalid postmortem template ${where} has an unknown source: ${section.source}`);
+  }
+  return section as PostmortemSection;
+}
+
+/** Reads rules/postmortem.json plus the `postmortem` block of the team overrides. */
+export function loadPostmortemTemplate(team = process.env.OPS_COPILOT_TEAM): PostmortemTemplate {
+  const file = path.join(RULES_DIR, "postmortem.json");
+  const base: PostmortemTemplate = existsSync(file)
+    ? readJson<PostmortemTemplate>(file)
+    : { version: "0", sections: [] };
+
+  const overrides = team ? teamOverrides(team) : undefined;
+  const pm = overrides?.postmortem;
+  const source = overrides && pm ? `${team} overrides` : "postmortem.json";
+  const disabled = new Set(pm?.disableSections ?? []);
+  const order = pm?.order ?? [];
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+
+  const sections = mergeById<Partial<PostmortemSection> & { id: string }>(base.sections, pm?.sections)
+    .filter((s) => !disabled.has(s.id))
+    .map((s) => validateSection(s, source))
+    // stable sort: sections not named in `order` keep their place after the named ones
+    .sort((a, b) => rank(a.id) - rank(b.id));
+
+  return {
+    version: overrides && pm ? `${base.version}+${team}.${overrides.version}` : base.version,
+    intro: pm?.intro ?? base.intro,
+    sections,
+  };
+}
+
+/** Reads rules/slos.json plus the `slo` block of the team overrides. */
+export function loadSloConfig(team = process.env.OPS_COPILOT_TEAM): SloConfig {
+  const file = path.join(RULES_DIR, "slos.json");
+  const base: SloConfig = existsSync(file)
+    ? readJson<SloConfig>(file)
+    : { version: "0", slos: [], burnRateAlerts: [] };
+
+  const overrides = team ? teamOverrides(team) : undefined;
+  const slo = overrides?.slo;
+  const source = overrides && slo ? `${team} overrides` : "slos.json";
+  return {
+    version: overrides && slo ? `${base.version}+${team}.${overrides.version}` : base.version,
+    slos: mergeById(base.slos ?? [], slo?.slos).map((s) => validateSlo(s, source)),
+    burnRateAlerts: mergeById(base.burnRateAlerts ?? [], slo?.burnRateAlerts).map((a) =>
+      validateBurnRateAlert(a, source)
+    ),
+  };
+}
+
+function validateConditions(conditions: ScoreCondition[] | undefined, source: string) {
+  return (conditions ?? []).map((c) => {
+    if (!c.id || !c.signal || !Array.isArray(c.tiers) || !c.tiers.length) {
+      throw new Error(
+        `Invalid scoring policy ${source}: condition "${c.id ?? "?"}" needs a signal and tiers`
+      );
+    }
+    return { ...c, tiers: [...c.tiers].sort((a, b) => b.gte - a.gte) };
+  });
+}
+
+function mergeConditions(base: ScoreCondition[], overrides: ScoreCondition[] = []) {
+  const byId = new Map(base.map((c) => [c.id, c]));
+  for (const c of overrides) byId.set(c.id, c);
+  return [...byId.values()];
+}
+
+/**
+ * Reads rules/scoring.json plus the `scoring` block of the team overrides.
+ * Per-service policies are resolved later, once the service is known.
+ */
+export function loadScoringPolicy(team = process.env.OPS_COPILOT_TEAM): ScoringPolicy {
+  const base = readJson<ScoringPolicy>(path.join(RULES_DIR, "scoring.json"));
+  let policy: ScoringPolicy = {
+    ...base,
+    conditions: validateConditions(base.conditions, "scoring.json"),
+  };
+
+  const overrides = team ? teamOverrides(team) : undefined;
+  const scoring = overrides?.scoring;
+  if (overrides && scoring) {
+    policy = {
+      version: `${base.version}+${team}.${overrides.version}`,
+      conditions: mergeConditions(
+        policy.conditions,
+        validateConditions(scoring.conditions, `${team} overrides`)
+      ),
+      patternWeights: { ...policy.patternWeights, ...scoring.patternWeights },
+      confidence: { ...policy.confidence, ...scoring.confidence },
+      services: { ...policy.services, ...scoring.services },
+    };
+  }
+
+  return policy;
+}
+
+/** The policy with one service's overrides applied. */
+export function policyForService(policy: ScoringPolicy, service?: string) {
+  const override = service ? policy.services?.[service] : undefined;
+  if (!override) return { policy, serviceOverride: undefined };
+  return {
+    policy: {
+      ...policy,
+      conditions: mergeConditions(
+        policy.conditions,
+        validateConditions(override.conditions, `service "${service}"`)
+      ),
+      patternWeights: { ...policy.patternWeights, ...override.patternWeights },
+    },
+    serviceOverride: { service, severityThresholds: override.severityThresholds },
+  };
+}
@@ -0,0 +1,52 @@
+import type { LogRecord } from "../ingest/types";
+import type { PatternRule, RuleCatalog, RuleMatcher, SloConfig } from "./types";
+
+export type CompiledRule = PatternRule & {
+  test: (rec: Pick<LogRecord, "line" | "fields">) => boolean;
+};
+
+/** A catalog ready to evaluate, with any team override already merged in. */
+export type RuleSet = {
+  // e.g. "1.0.0" or "1.0.0+payments.3" with a team override applied
+  version: string;
+  severityThresholds: RuleCatalog["severityThresholds"];
+  rules: CompiledRule[];
+  // ingest counts good/bad events per SLO so analyze can compute burn rates
+  slo: SloConfig;
+};
+
+function compileMatcher(m: RuleMatcher) {
+  const re = m.regex ? new RegExp(m.regex, m.flags) : undefined;
+
+  return (rec: Pick<LogRecord, "line" | "fields">) => {
+    const value = m.field ? rec.fields[m.field] : rec.line;
+    if (value === undefined) return false;
+    if (re && !re.test(value)) return false;
+    if (m.equals !== undefined && value !== m.equals) return false;
+    if (m.oneOf && !m.oneOf.includes(value)) return false;
+    if (m.gte !== undefined || m.lte !== undefined) {
+      const n = Number(value);
+      if (!Number.isFinite(n)) return false;
+      if (m.gte !== undefined && n < m.gte) return false;
+      if (m.lte !== undefined && n > m.lte) return false;
+    }
+    return true;
+  };
+}
+
+export function compileRules(rules: PatternRule[]): CompiledRule[] {
+  return rules.map((rule) => {
+    const matchers = rule.match.map(compileMatcher);
+    return { ...rule, test: (rec) => matchers.some((fn) => fn(rec)) };
+  });
+}
+
+/** Pattern ids hit by one record; several rules may share a pattern. */
+export function matchPatterns(
+  rules: CompiledRule[],
+  rec: Pick<LogRecord, "line" | "fields">
+) {
+  const hits = new Set<string>();
+  for (const rule of rules) if (rule.test(rec)) hits.add(rule.pattern);
+  return hits;
+}
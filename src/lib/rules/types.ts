@@ -0,0 +1,167 @@
+/**
+ * One condition on a log record. Every property that is set must hold;
+ * `field` selects a parsed field (e.g. "x_cf_routererror"), otherwise the
+ * readable line is tested.
+ */
+export type RuleMatcher = {
+  field?: string;
+  regex?: string;
+  flags?: string;
+  equals?: string;
+  oneOf?: string[];
+  gte?: number;
+  lte?: number;
+};
+
+export type PatternRule = {
+  id: string;
+  pattern: string;
+  description?: string;
+  // a rule fires when any matcher holds
+  match: RuleMatcher[];
+  severityWeight: number;
+  rootCause: string;
+  actions: string[];
+};
+
+export type RuleCatalog = {
+  version: string;
+  severityThresholds: { medium: number; high: number };
+  rules: PatternRule[];
+};
+
+/** Points for a signal; only the first tier (highest `gte` first) that holds counts. */
+export type ScoreCondition = {
+  id: string;
+  signal: string;
+  label?: string;
+  tiers: Array<{ gte: number; points: number }>;
+};
+
+export type ServicePolicy = {
+  severityThresholds?: Partial<RuleCatalog["severityThresholds"]>;
+  conditions?: ScoreCondition[];
+  patternWeights?: Record<string, number>;
+};
+
+/**
+ * rules/scoring.json: how signals and patterns add up to a severity score.
+ * Severity thresholds come from the rule catalog unless a service overrides them.
+ */
+export type ScoringPolicy = {
+  version: string;
+  conditions: ScoreCondition[];
+  // replaces a rule's severityWeight, keyed by pattern id
+  patternWeights?: Record<string, number>;
+  confidence: { highMinSamples: number; highMinFailures: number; lowMaxSamples: number };
+  services?: Record<string, ServicePolicy>;
+};
+
+/** A service level objective, evaluated over the uploaded logs. */
+export type SloDefinition = {
+  id: string;
+  // omitted: every line counts, whatever its service
+  service?: string;
+  description?: string;
+  // availability: good = HTTP status below 500; latency: good = duration <= thresholdMs
+  kind: "availability" | "latency";
+  thresholdMs?: number;
+  // percent of good events, e.g. 99.9
+  target: number;
+  windowDays: number;
+};
+
+/** Multi-window burn-rate alert: fires when both windows burn faster than `burnRate`. */
+export type BurnRateAlert = {
+  id: string;
+  severity: "page" | "ticket";
+  longWindowMinutes: number;
+  shortWindowMinutes: number;
+  burnRate: number;
+};
+
+/** rules/slos.json */
+export type SloConfig = {
+  version: string;
+  slos: SloDefinition[];
+  burnRateAlerts: BurnRateAlert[];
+};
+
+export type RunbookStep = { id: string; text: string; owner?: string };
+
+/**
+ * A runbook applies when one of its patterns or services is involved; when
+ * `severities` is set the incident must also have one of them. A runbook
+ * keyed to severities only applies to every incident of that severity.
+ */
+export type Runbook = {
+  id: string;
+  title: string;
+  description?: string;
+  match: {
+    patterns?: string[];
+    services?: string[];
+    severities?: Array<"Low" | "Medium" | "High">;
+  };
+  owner?: string;
+  steps: RunbookStep[];
+  escalation?: Array<{ name: string; role?: string; contact: string }>;
+  links?: Array<{ label: string; url: string }>;
+};
+
+/** rules/runbooks.json */
+export type RunbookLibrary = {
+  version: string;
+  runbooks: Runbook[];
+};
+
+/** What fills a postmortem section; "text" sections carry fixed text for the team to complete. */
+export type PostmortemSource =
+  | "summary"
+  | "impact"
+  | "timeline"
+  | "durations"
+  | "root_cause"
+  | "contributing_factors"
+  | "went_well"
+  | "went_badly"
+  | "action_items"
+  | "text";
+
+export type PostmortemSection = {
+  id: string;
+  title: string;
+  source: PostmortemSource;
+  // shown in italics under the heading, for whoever completes the section
+  prompt?: string;
+  text?: string;
+};
+
+/** rules/postmortem.json */
+export type PostmortemTemplate = {
+  version: string;
+  intro?: string;
+  sections: PostmortemSection[];
+};
+
+/** Team file in rules/overrides/: partial rules merge by id, new ids are added. */
+export type RuleOverrides = {
+  version: string;
+  disable?: string[];
+  severityThresholds?: Partial<RuleCatalog["severityThresholds"]>;
+  rules?: Array<Partial<PatternRule> & { id: string }>;
+  // conditions merge by id; the other scoring keys merge shallowly
+  scoring?: Partial<Omit<ScoringPolicy, "version">>;
+  // SLOs and burn-rate alerts merge by id
+  slo?: Partial<Omit<SloConfig, "version">>;
+  // runbooks replace by id; `disableRunbooks` drops base ones
+  runbooks?: Runbook[];
+  disableRunbooks?: string[];
+  // sections merge by id; `order` lists section ids to put first
+  postmortem?: {
+    intro?: string;
+    sections?: Array<Partial<PostmortemSection> & { id: string }>;
+    disableSections?: string[];
+    order?: string[];
+  };
+};
@@ -0,0 +1,597 @@
+import { randomUUID } from "node:crypto";
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import path from "node:path";
+import { briefError, type Brief } from "@/lib/analysis/brief";
+import {
+  incidentFingerprint,
+  similarity,
+  type Fingerprint,
+  type SimilarityScore,
+} from "@/lib/analysis/fingerprint";
+import {
+  formatStatus,
+  initialLifecycle,
+  isIncidentStatus,
+  retime,
+  transition,
+  type IncidentStatus,
+  type Lifecycle,
+  type ResponderNote,
+} from "@/lib/analysis/lifecycle";
+import { isRunbookActivity, type RunbookActivity } from "@/lib/analysis/runbooks";
+import { isChangeEvent } from "@/lib/ingest/changes";
+import type { ChangeEvent, Incident } from "@/lib/ingest/types";
+
+/*
+ * File-based incident history: one JSON document per incident under
+ * data/incidents (or OPS_COPILOT_DATA_DIR), plus a small index entry per
+ * incident that listing and the similarity search read instead. Updates
+ * hold a per-incident lock file and bump the record's revision, so several
+ * server processes can share the directory without losing writes.
+ */
+
+const DATA_DIR =
+  process.env.OPS_COPILOT_DATA_DIR ?? path.join(process.cwd(), "data", "incidents");
+const INDEX_DIR = path.join(DATA_DIR, "index");
+const ID_RE = /^inc-[0-9a-f-]{36}$/;
+
+// a lock older than this was left by a crashed process
+const LOCK_STALE_MS = 10_000;
+const LOCK_WAIT_MS = 20;
+const LOCK_ATTEMPTS = 100;
+
+export type SourceFile = {
+  name: string;
+  bytes?: number;
+  role: "logs" | "baseline" | "changes";
+};
+
+export type IncidentRecord = {
+  id: string;
+  // bumped on every write; GET returns it as the ETag and PATCH honours If-Match
+  revision: number;
+  title: string;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  updatedBy: string;
+  files: SourceFile[];
+  timeZone?: string;
+  // the /api/ingest result and the brief, exactly as they were generated
+  ingest: Incident;
+  analysis?: Brief;
+  // briefs replaced by a later PATCH, oldest first
+  analysisHistory: AnalysisRevision[];
+  // events from an uploaded change-event file (log-detected ones are in ingest)
+  uploadedChanges: ChangeEvent[];
+  runbookActivity: RunbookActivity[];
+  lifecycle: Lifecycle;
+  fingerprint: Fingerprint;
+  // the postmortem as last edited and saved by a responder
+  postmortem?: SavedPostmortem;
+};
+
+export type SavedPostmortem = {
+  markdown: string;
+  templateVersion?: string;
+  savedAt: string;
+  savedBy: string;
+};
+
+export type AnalysisRevision = {
+  analysis: Brief;
+  supersededAt: string;
+  supersededBy: string;
+};
+
+export type IncidentSummary = Pick<
+  IncidentRecord,
+  "id" | "title" | "createdAt" | "createdBy" | "updatedAt" | "updatedBy"
+> & {
+  service: string;
+  region: string;
+  timeWindow: Incident["timeWindow"];
+  severity?: Brief["severity"];
+  confidence?: Brief["confidence"];
+  executiveOneLiner?: string;
+  // number of briefs saved for the incident, current one included
+  revisions: number;
+  status: IncidentStatus;
+  owner?: string;
+  commander?: string;
+};
+
+export type IncidentList = {
+  incidents: IncidentSummary[];
+  // ids whose files could not be read; they are left out of the list
+  unreadable: string[];
+};
+
+// what listing and the similarity search need of each incident
+type IndexEntry = {
+  summary: IncidentSummary;
+  fingerprint: Fingerprint;
+  resolutionNotes: ResponderNote[];
+};
+
+export type SimilarIncident = IncidentSummary &
+  SimilarityScore & {
+    // notes from responders plus the notes on mitigated / resolved transitions
+    resolutionNotes: ResponderNote[];
+    href: string;
+  };
+
+// below this a stored incident is not worth pointing at
+const MIN_SIMILARITY = 0.4;
+const MAX_SIMILAR = 3;
+const RESOLUTION_STATUSES: IncidentStatus[] = ["mitigated", "resolved", "postmortem_done"];
+
+export type IncidentInput = Pick<IncidentRecord, "title" | "createdBy" | "ingest"> &
+  Partial<
+    Pick<IncidentRecord, "files" | "timeZone" | "analysis" | "uploadedChanges" | "runbookActivity">
+  > & {
+    // when the incident was detected, in log time; defaults to the start of the focus window
+    detectedAt?: string;
+  };
+
+export type IncidentPatch = Partial<
+  Pick<IncidentRecord, "title" | "analysis" | "uploadedChanges" | "runbookActivity">
+> & {
+  updatedBy: string;
+  // lifecycle: a status change (at statusAt, else the end of the logs), roles, a responder note
+  status?: IncidentStatus;
+  statusAt?: string;
+  statusNote?: string;
+  // moves an existing transition, say the detection, to another time
+  transitionAt?: { index: number; at: string };
+  owner?: string;
+  commander?: string;
+  note?: string;
+  postmortem?: Pick<SavedPostmortem, "markdown" | "templateVersion">;
+};
+
+// null for ids that cannot be ours, so a crafted id never leaves DATA_DIR
+function fileFor(id: string) {
+  return ID_RE.test(id) ? path.join(DATA_DIR, `${id}.json`) : null;
+}
+
+function readRecord(file: string): IncidentRecord {
+  const record = JSON.parse(readFileSync(file, "utf8")) as IncidentRecord;
+  // records saved before lifecycles and fingerprints existed get them on read
+  return {
+    ...record,
+    revision: record.revision ?? 1,
+    lifecycle: record.lifecycle ?? initialLifecycle(record.createdAt, record.createdBy),
+    analysisHistory: record.analysisHistory ?? [],
+    fingerprint: record.fingerprint ?? incidentFingerprint(record.ingest),
+  };
+}
+
+// write then rename, so a reader never sees half a file
+function writeAtomic(file: string, data: unknown) {
+  const tmp = `${file}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data, null, 2));
+  renameSync(tmp, file);
+}
+
+function writeRecord(record: IncidentRecord) {
+  mkdirSync(INDEX_DIR, { recursive: true });
+  writeAtomic(path.join(DATA_DIR, `${record.id}.json`), record);
+  writeAtomic(path.join(INDEX_DIR, `${record.id}.json`), indexEntry(record));
+}
+
+/** Runs `fn` holding the incident's lock file; null when another writer keeps it. */
+async function withLock<T>(id: string, fn: () => T): Promise<T | null> {
+  mkdirSync(DATA_DIR, { recursive: true });
+  const lock = path.join(DATA_DIR, `${id}.lock`);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      closeSync(openSync(lock, "wx"));
+      break;
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+      const stale = Date.now() - (statSync(lock, { throwIfNoEntry: false })?.mtimeMs ?? 0);
+      if (stale > LOCK_STALE_MS) rmSync(lock, { force: true });
+      else if (attempt >= LOCK_ATTEMPTS) return null;
+      else await new Promise((resolve) => setTimeout(resolve, LOCK_WAIT_MS));
+    }
+  }
+  try {
+    return fn();
+  } finally {
+    rmSync(lock, { force: true });
+  }
+}
+
+function isoTime(value: unknown) {
+  const at = typeof value === "string" ? new Date(value) : null;
+  return at && !Number.isNaN(at.getTime()) ? at.toISOString() : null;
+}
+
+function nameOf(value: unknown) {
+  return typeof value === "string" ? value.trim().slice(0, 200) : "";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** What is wrong with the parts of an ingest the record and its fingerprint read, or null. */
+function ingestError(value: unknown): string | null {
+  if (!isObject(value) || !isObject(value.derivedSignals)) {
+    return "ingest must be an /api/ingest incident";
+  }
+  if (typeof value.serviceGuess !== "string" || typeof value.regionGuess !== "string") {
+    return "ingest.serviceGuess and ingest.regionGuess must be strings";
+  }
+  if (!isObject(value.timeWindow)) return "ingest.timeWindow must be {start?, end?}";
+  if (
+    !Array.isArray(value.topPatterns) ||
+    !value.topPatterns.every((p) => isObject(p) && typeof p.pattern === "string")
+  ) {
+    return "ingest.topPatterns must be a list of {pattern, count}";
+  }
+  if (
+    value.templates !== undefined &&
+    (!Array.isArray(value.templates) ||
+      !value.templates.every(
+        (t) => isObject(t) && typeof t.template === "string" && typeof t.failures === "number"
+      ))
+  ) {
+    return "ingest.templates must be a list of log templates";
+  }
+  if (
+    value.breakdown !== undefined &&
+    (!isObject(value.breakdown) ||
+      (value.breakdown.byService !== undefined &&
+        (!Array.isArray(value.breakdown.byService) ||
+          !value.breakdown.byService.every((row) => isObject(row)))))
+  ) {
+    return "ingest.breakdown.byService must be a list of rows";
+  }
+  return null;
+}
+
+/** What is wrong with the JSON payloads of a create or update, or null. */
+function payloadError(input: IncidentPatch | IncidentInput) {
+  if (input.analysis !== undefined) {
+    const error = briefError(input.analysis);
+    if (error) return error;
+  }
+  if (
+    input.uploadedChanges !== undefined &&
+    (!Array.isArray(input.uploadedChanges) || !input.uploadedChanges.every(isChangeEvent))
+  ) {
+    return "uploadedChanges must be a list of change events with at, type and source";
+  }
+  if (
+    input.runbookActivity !== undefined &&
+    (!Array.isArray(input.runbookActivity) || !input.runbookActivity.every(isRunbookActivity))
+  ) {
+    return "runbookActivity must be a list of {runbook, step, done, by, at}";
+  }
+  if (
+    "postmortem" in input &&
+    input.postmortem !== undefined &&
+    (!input.postmortem ||
+      typeof input.postmortem.markdown !== "string" ||
+      (input.postmortem.templateVersion !== undefined &&
+        typeof input.postmortem.templateVersion !== "string"))
+  ) {
+    return "postmortem must be {markdown, templateVersion?}";
+  }
+  return null;
+}
+
+function summarize(r: IncidentRecord): IncidentSummary {
+  return {
+    id: r.id,
+    title: r.title,
+    createdAt: r.createdAt,
+    createdBy: r.createdBy,
+    updatedAt: r.updatedAt,
+    updatedBy: r.updatedBy,
+    service: r.ingest.serviceGuess,
+    region: r.ingest.regionGuess,
+    timeWindow: r.ingest.timeWindow,
+    severity: r.analysis?.severity,
+    confidence: r.analysis?.confidence,
+    executiveOneLiner: r.analysis?.executiveOneLiner,
+    revisions: r.analysisHistory.length + (r.analysis ? 1 : 0),
+    status: r.lifecycle.status,
+    owner: r.lifecycle.owner,
+    commander: r.lifecycle.commander,
+  };
+}
+
+function indexEntry(r: IncidentRecord): IndexEntry {
+  return {
+    summary: summarize(r),
+    fingerprint: r.fingerprint,
+    resolutionNotes: [
+      ...r.lifecycle.notes,
+      ...r.lifecycle.transitions
+        .filter((t) => t.note && RESOLUTION_STATUSES.includes(t.status))
+        .map((t) => ({ at: t.at, by: t.by, text: `${formatStatus(t.status)}: ${t.note}` })),
+    ].sort((a, b) => a.at.localeCompare(b.at)),
+  };
+}
+
+/**
+ * Index entries of all incidents. A missing or outdated entry (say, for a
+ * record saved before the index existed) is rebuilt from the record; files
+ * that cannot be read are skipped and reported.
+ */
+function readIndex() {
+  const entries: IndexEntry[] = [];
+  const unreadable: string[] = [];
+  if (!existsSync(DATA_DIR)) return { entries, unreadable };
+
+  for (const f of readdirSync(DATA_DIR)) {
+    const id = f.slice(0, -5);
+    if (!f.endsWith(".json") || !ID_RE.test(id)) continue;
+    const file = path.join(DATA_DIR, f);
+    const indexFile = path.join(INDEX_DIR, f);
+    try {
+      const indexed = statSync(indexFile, { throwIfNoEntry: false });
+      if (indexed && indexed.mtimeMs >= statSync(file).mtimeMs) {
+        entries.push(JSON.parse(readFileSync(indexFile, "utf8")) as IndexEntry);
+        continue;
+      }
+      const entry = indexEntry(readRecord(file));
+      mkdirSync(INDEX_DIR, { recursive: true });
+      writeAtomic(indexFile, entry);
+      entries.push(entry);
+    } catch {
+      unreadable.push(id);
+    }
+  }
+  return { entries, unreadable };
+}
+
+/** Saved incidents, newest first, and the ids of any that could not be read. */
+export function listIncidents(): IncidentList {
+  const { entries, unreadable } = readIndex();
+  return {
+    incidents: entries
+      .map((e) => e.summary)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    unreadable,
+  };
+}
+
+/**
+ * Stored incidents most like `fingerprint`, best first. Only incidents that
+ * share a pattern, a failure template or a failing service qualify, so two
+ * quiet uploads never match on signal shape alone.
+ */
+export function findSimilarIncidents(
+  fingerprint: Fingerprint,
+  excludeId?: string
+): SimilarIncident[] {
+  return readIndex()
+    .entries.filter((e) => e.summary.id !== excludeId)
+    .map((e) => ({ e, sim: similarity(fingerprint, e.fingerprint) }))
+    .filter(
+      ({ sim }) =>
+        sim.score >= MIN_SIMILARITY &&
+        (sim.sharedPatterns.length > 0 || sim.sharedServices.length > 0 || sim.sharedTemplates > 0)
+    )
+    .sort((a, b) => b.sim.score - a.sim.score)
+    .slice(0, MAX_SIMILAR)
+    .map(({ e, sim }) => ({
+      ...e.summary,
+      ...sim,
+      resolutionNotes: e.resolutionNotes,
+      href: `/api/incidents/${e.summary.id}`,
+    }));
+}
+
+export function getIncident(id: string): IncidentRecord | null {
+  const file = fileFor(id);
+  return file && existsSync(file) ? readRecord(file) : null;
+}
+
+export function createIncident(input: IncidentInput): IncidentRecord | { error: string } {
+  const badIngest = ingestError(input.ingest);
+  if (badIngest) return { error: badIngest };
+  const title = nameOf(input.title);
+  const createdBy = nameOf(input.createdBy);
+  if (!title) return { error: "title is required" };
+  if (!createdBy) return { error: "createdBy is required" };
+  const invalid = payloadError(input);
+  if (invalid) return { error: invalid };
+  const detectedAt = input.detectedAt === undefined ? undefined : isoTime(input.detectedAt);
+  if (detectedAt === null) return { error: `Invalid detectedAt: ${input.detectedAt}` };
+
+  const now = new Date().toISOString();
+  const record: IncidentRecord = {
+    id: `inc-${randomUUID()}`,
+    revision: 1,
+    title,
+    createdAt: now,
+    createdBy,
+    updatedAt: now,
+    updatedBy: createdBy,
+    files: input.files ?? [],
+    timeZone: input.timeZone,
+    ingest: input.ingest,
+    analysis: input.analysis,
+    analysisHistory: [],
+    uploadedChanges: input.uploadedChanges ?? [],
+    runbookActivity: input.runbookActivity ?? [],
+    // lifecycle clocks run in log time, so detection defaults to when the logs show it
+    lifecycle: initialLifecycle(
+      detectedAt ??
+        input.analysis?.focusWindow?.start ??
+        input.analysis?.onset ??
+        input.ingest.timeWindow.end ??
+        now,
+      createdBy
+    ),
+    fingerprint: incidentFingerprint(input.ingest),
+  };
+  writeRecord(record);
+  return record;
+}
+
+/**
+ * "Now" on the lifecycle's clock, which is log time: the end of the logs, or
+ * the latest transition or note if a responder recorded one after that.
+ * Wall-clock time only for uploads whose lines carried no timestamps.
+ */
+function logTimeNow(record: IncidentRecord, now: string) {
+  const end = record.ingest.timeWindow.end;
+  if (!end) return now;
+  return [
+    ...record.lifecycle.transitions.map((t) => t.at),
+    ...record.lifecycle.notes.map((n) => n.at),
+  ].reduce((latest, at) => (at > latest ? at : latest), end);
+}
+
+/** Status changes and notes without a time of their own are stamped `at`, in log time. */
+function patchLifecycle(
+  current: Lifecycle,
+  patch: IncidentPatch,
+  by: string,
+  at: string
+): Lifecycle | { error: string } {
+  let lifecycle = current;
+  if (patch.status !== undefined) {
+    if (!isIncidentStatus(patch.status)) return { error: `Unknown status: ${patch.status}` };
+    const statusAt = patch.statusAt ? isoTime(patch.statusAt) : at;
+    if (!statusAt) return { error: `Invalid statusAt: ${patch.statusAt}` };
+    // free text like `note`, not a name: kept whole
+    if (patch.statusNote !== undefined && typeof patch.statusNote !== "string") {
+      return { error: "statusNote must be a string" };
+    }
+    const moved = transition(lifecycle, {
+      status: patch.status,
+      at: statusAt,
+      by,
+      note: patch.statusNote?.trim() || undefined,
+    });
+    if ("error" in moved) return moved;
+    lifecycle = moved;
+  }
+  if (patch.transitionAt !== undefined) {
+    const at = isoTime(patch.transitionAt?.at);
+    if (!at) return { error: `Invalid transitionAt.at: ${patch.transitionAt?.at}` };
+    const moved = retime(lifecycle, Number(patch.transitionAt.index), at);
+    if ("error" in moved) return moved;
+    lifecycle = moved;
+  }
+  // an empty string clears a role
+  if (patch.owner !== undefined) lifecycle = { ...lifecycle, owner: nameOf(patch.owner) || undefined };
+  if (patch.commander !== undefined) {
+    lifecycle = { ...lifecycle, commander: nameOf(patch.commander) || undefined };
+  }
+  if (patch.note !== undefined) {
+    const text = typeof patch.note === "string" ? patch.note.trim() : "";
+    if (!text) return { error: "note must not be empty" };
+    lifecycle = { ...lifecycle, notes: [...lifecycle.notes, { at, by, text }] };
+  }
+  return lifecycle;
+}
+
+/**
+ * Applies the given fields under the incident's lock; id, ingest, files and
+ * creation stamps never change. With `ifRevision`, a record that has changed
+ * since the caller read it is a conflict. Null when there is no such incident.
+ */
+export async function updateIncident(
+  id: string,
+  patch: IncidentPatch,
+  ifRevision?: number
+): Promise<IncidentRecord | { error: string; conflict?: boolean } | null> {
+  const file = fileFor(id);
+  if (!file || !existsSync(file)) return null;
+  const result = await withLock(id, () => applyPatch(file, patch, ifRevision));
+  return result ?? { error: `Incident ${id} is being updated by someone else; retry`, conflict: true };
+}
+
+function applyPatch(
+  file: string,
+  patch: IncidentPatch,
+  ifRevision?: number
+): IncidentRecord | { error: string; conflict?: boolean } | null {
+  if (!existsSync(file)) return null;
+  const current = readRecord(file);
+  if (ifRevision !== undefined && ifRevision !== current.revision) {
+    return {
+      error: `Incident ${current.id} is at revision ${current.revision}, not ${ifRevision}; reload it`,
+      conflict: true,
+    };
+  }
+  const title = patch.title === undefined ? current.title : nameOf(patch.title);
+  const updatedBy = nameOf(patch.updatedBy);
+  if (!title) return { error: "title must not be empty" };
+  if (!updatedBy) return { error: "updatedBy is required" };
+  const invalid = payloadError(patch);
+  if (invalid) return { error: invalid };
+
+  const now = new Date().toISOString();
+  const lifecycle = patchLifecycle(current.lifecycle, patch, updatedBy, logTimeNow(current, now));
+  if ("error" in lifecycle) return lifecycle;
+
+  const record: IncidentRecord = {
+    ...current,
+    revision: current.revision + 1,
+    title,
+    analysis: patch.analysis ?? current.analysis,
+    // re-saving the same brief (say, after ticking runbook steps) is not a new revision
+    analysisHistory:
+      patch.analysis &&
+      current.analysis &&
+      JSON.stringify(patch.analysis) !== JSON.stringify(current.analysis)
+        ? [
+            ...current.analysisHistory,
+            { analysis: current.analysis, supersededAt: now, supersededBy: updatedBy },
+          ]
+        : current.analysisHistory,
+    uploadedChanges: patch.uploadedChanges ?? current.uploadedChanges,
+    runbookActivity: patch.runbookActivity ?? current.runbookActivity,
+    lifecycle,
+    postmortem: patch.postmortem
+      ? {
+          markdown: patch.postmortem.markdown,
+          templateVersion: patch.postmortem.templateVersion,
+          savedAt: now,
+          savedBy: updatedBy,
+        }
+      : current.postmortem,
+    updatedAt: now,
+    updatedBy,
+  };
+  writeRecord(record);
+  return record;
+}
+
+/**
+ * Removes the record and its index entry under the incident's lock. False
+ * when there was no such incident, a conflict when another writer keeps the lock.
+ */
+export async function deleteIncident(
+  id: string
+): Promise<boolean | { error: string; conflict: true }> {
+  const file = fileFor(id);
+  if (!file || !existsSync(file)) return false;
+  const deleted = await withLock(id, () => {
+    if (!existsSync(file)) return false;
+    rmSync(file);
+    rmSync(path.join(INDEX_DIR, `${id}.json`), { force: true });
+    return true;
+  });
+  return deleted ?? { error: `Incident ${id} is being updated by someone else; retry`, conflict: true };
+}